@@ -1,9 +1,45 @@
-import { LayerMap } from "effect"
+import { Effect, LayerMap, Option, Scope, ServiceMap } from "effect"
 import { ClaudeLlmAgentLayer } from "./ClaudeLlmAgent.js"
 import { CodexLlmAgentLayer } from "./CodexLlmAgent.js"
 import { OpenCodeLlmAgentLayer } from "./OpenCodeLlmAgent.js"
+import { GeminiLlmAgentLayer } from "./GeminiLlmAgent.js"
+import { CustomLlmAgentLayer } from "./CustomLlmAgent.js"
+import { ScriptedLlmAgentLayer, type AgentRecorderShape } from "./ScriptedLlmAgent.js"
+import { LlmAgent, type LlmAgentShape } from "./LlmAgent.js"
+import type { AgentName, PhaseAgentConfig } from "./StorageService.js"
 
 export class AgentLayerMap extends LayerMap.Service<AgentLayerMap>()("AgentLayerMap", {
-  lookup: (key: "claude" | "codex" | "opencode") =>
-    key === "codex" ? CodexLlmAgentLayer : key === "opencode" ? OpenCodeLlmAgentLayer : ClaudeLlmAgentLayer
+  lookup: (key: AgentName) =>
+    key === "codex"
+      ? CodexLlmAgentLayer
+      : key === "opencode"
+      ? OpenCodeLlmAgentLayer
+      : key === "gemini"
+      ? GeminiLlmAgentLayer
+      : key === "custom"
+      ? CustomLlmAgentLayer
+      : key === "scripted"
+      ? ScriptedLlmAgentLayer
+      : ClaudeLlmAgentLayer
 }) {}
+
+/**
+ * Resolve the agent to use for a phase.
+ * Returns the backend configured for the phase, or the fallback agent
+ * (the one selected via `--agent`) when the phase does not override it.
+ * The backend's layer is built in the caller's scope, so resolve once per run and keep the agent for the run.
+ * With a recorder (`--record`), the backend's sessions are recorded like the fallback's.
+ */
+export const resolvePhaseAgent = (
+  phase: PhaseAgentConfig | undefined,
+  fallback: LlmAgentShape,
+  recorder: Option.Option<AgentRecorderShape> = Option.none()
+): Effect.Effect<LlmAgentShape, never, AgentLayerMap | Scope.Scope> =>
+  phase?.agent === undefined
+    ? Effect.succeed(fallback)
+    : AgentLayerMap.services(phase.agent).pipe(
+        Effect.map((services) => {
+          const agent = ServiceMap.get(services, LlmAgent)
+          return Option.isSome(recorder) ? recorder.value.record(agent) : agent
+        })
+      )
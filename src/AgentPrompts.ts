@@ -24,13 +24,27 @@ export interface ReplanningPromptOptions extends PlanningPromptOptions {
   readonly previousPlanPath: string
 }
 
+/**
+ * Result of a check command or of one named check step
+ */
+export interface CheckResult {
+  /** Step name, absent for a single check command */
+  readonly name?: string
+  readonly outputPath: string
+  readonly exitCode: number
+  readonly required: boolean
+  /** Compact summary of the diagnostics in the output, empty if none were recognized */
+  readonly diagnostics: string
+}
+
 export interface ImplementingPromptOptions {
   readonly specsPath: string
   readonly cugginoPath: string
   readonly planPath: string
   readonly sessionPath: string
-  readonly checkOutputPath?: string
-  readonly checkExitCode?: number
+  readonly checks?: ReadonlyArray<CheckResult>
+  /** The previous task was not committed because the check command failed after it */
+  readonly uncommittedTask?: boolean
 }
 
 export interface ReviewingPromptOptions {
@@ -38,8 +52,7 @@ export interface ReviewingPromptOptions {
   readonly cugginoPath: string
   readonly sessionPath: string
   readonly reviewPath: string
-  readonly checkOutputPath?: string
-  readonly checkExitCode?: number
+  readonly checks?: ReadonlyArray<CheckResult>
   readonly initialCommitHash?: string
 }
 
@@ -248,6 +261,13 @@ Plan written successfully.
 </PLAN_COMPLETE>
 \`\`\`
 
+**NEEDS_HUMAN** - A small clarification question only a human can answer (the session is paused and resumed with the answer; use SPEC_ISSUE for problems in the specs themselves):
+\`\`\`
+<NEEDS_HUMAN>
+The question, with the options you see...
+</NEEDS_HUMAN>
+\`\`\`
+
 **Important**: First write the plan file, then emit PLAN_COMPLETE on a new message.`
 }
 
@@ -285,20 +305,59 @@ The resulting plan must be self-contained and implementation-ready.`
 }
 
 /**
- * System prompt for the implementing agent.
+ * Diagnostics parsed from the check output, so agents only read the full file for details
  */
-export const implementingPrompt = (opts: ImplementingPromptOptions): string => {
-  const checkSection = opts.checkOutputPath
+const checkDiagnosticsSection = (check: CheckResult): string =>
+  check.diagnostics
     ? `
-## Check Output
+### Diagnostics${check.name !== undefined ? ` (${check.name})` : ""}
+
+${check.diagnostics}
 
-Check command exited with code \`${opts.checkExitCode}\`. The full output is available at \`${opts.checkOutputPath}\` — read the file for details.
+This summary was parsed from the check output; read the full output only for details it lacks.
 `
     : ""
 
-  const checkFileEntry: Array<FileEntry> = opts.checkOutputPath
-    ? [{ path: opts.checkOutputPath, permission: "READ_ONLY" }]
-    : []
+/**
+ * Check output section: the exit code and output file of the check command, or a table of its named steps
+ */
+const checkOutputSection = (checks: ReadonlyArray<CheckResult>, guidance: string): string => {
+  if (checks.length === 0) return ""
+  const [single] = checks
+  const results = checks.length === 1 && single.name === undefined
+    ? `Check command exited with code \`${single.exitCode}\`. The full output is available at \`${single.outputPath}\` — read the file for details.${guidance}`
+    : `The check steps ran in order. Each step's full output is in its own file — read a file for details.${guidance} Failures of optional steps are informational.
+
+| Step | Exit code | Output |
+|------|-----------|--------|
+${checks.map((check) => `| ${check.name}${check.required ? "" : " (optional)"} | \`${check.exitCode}\` | \`${check.outputPath}\` |`).join("\n")}`
+  return `
+## Check Output
+
+${results}
+${checks.map(checkDiagnosticsSection).join("")}`
+}
+
+/**
+ * Check output files, readable by the agent
+ */
+const checkFileEntries = (checks: ReadonlyArray<CheckResult> | undefined): Array<FileEntry> =>
+  (checks ?? []).map((check) => ({ path: check.outputPath, permission: "READ_ONLY" }))
+
+/**
+ * System prompt for the implementing agent.
+ */
+export const implementingPrompt = (opts: ImplementingPromptOptions): string => {
+  const checks = opts.checks ?? []
+  const checkSection = checkOutputSection(checks, "") + (checks.length > 0 && opts.uncommittedTask ? `
+The previous task was **not committed** because this check failed after it. Its changes are still in the working tree: fix the failures before picking a new task.
+` : "")
+  const [single] = checks
+  const firstStep = checks.length === 0
+    ? ""
+    : checks.length === 1 && single.name === undefined
+    ? `0. Read the check output file at \`${single.outputPath}\` and fix any issues (exit code: \`${single.exitCode}\`)`
+    : `0. Read the output files of the failed check steps and fix any issues`
 
   return `# Implementation Task
 
@@ -308,13 +367,13 @@ ${filesSection([
   { path: opts.specsPath, permission: "TASK_WRITABLE" },
   { path: opts.planPath, permission: "READ_ONLY" },
   { path: opts.sessionPath, permission: "READ_ONLY" },
-  ...checkFileEntry,
+  ...checkFileEntries(opts.checks),
   { path: "Source code", permission: "WRITE" },
   { path: `Everything else in ${opts.cugginoPath}`, permission: "IGNORE" },
 ])}
 ## Steps
 
-${opts.checkOutputPath ? `0. Read the check output file at \`${opts.checkOutputPath}\` and fix any issues (exit code: \`${opts.checkExitCode}\`)` : ``}
+${firstStep}
 1. Read plan from ${opts.planPath}
 2. Check ${opts.sessionPath} for previous progress
 3. Pick one and only one unimplemented task to implement
@@ -359,12 +418,20 @@ Description of the issue...
 Quick summary of what was implemented (git commit message style, do not reference contents of the plan or review or spec, describe in general terms)
 </DONE>
 \`\`\`
+Optionally add attributes naming the plan task and the files you changed: \`<DONE task="3" files="src/a.ts,src/b.ts">\`
 
 **NO_MORE_WORK** - ALL tasks in the plan are already implemented and no changes were made (exit):
 \`\`\`
 <NO_MORE_WORK>
 Brief explanation of why there is nothing left to implement
 </NO_MORE_WORK>
+\`\`\`
+
+**NEEDS_HUMAN** - A small clarification question only a human can answer (the session is paused and resumed with the answer; use SPEC_ISSUE for problems in the specs themselves):
+\`\`\`
+<NEEDS_HUMAN>
+The question, with the options you see...
+</NEEDS_HUMAN>
 \`\`\``
 }
 
@@ -421,17 +488,10 @@ export const auditPrompt = (opts: AuditPromptOptions): string => `Audit the code
  * System prompt for the reviewing agent.
  */
 export const reviewingPrompt = (opts: ReviewingPromptOptions): string => {
-  const checkSection = opts.checkOutputPath
-    ? `
-## Check Output
-
-Check command exited with code \`${opts.checkExitCode}\`. The full output is available at \`${opts.checkOutputPath}\` — read the file for details. Consider this when reviewing, requesting to fix potentially related issues or that prevent correct validation of the implementation.
-`
-    : ""
-
-  const checkFileEntry: Array<FileEntry> = opts.checkOutputPath
-    ? [{ path: opts.checkOutputPath, permission: "READ_ONLY" }]
-    : []
+  const checkSection = checkOutputSection(
+    opts.checks ?? [],
+    " Consider this when reviewing, requesting to fix potentially related issues or that prevent correct validation of the implementation."
+  )
 
   const initialCommitSection = opts.initialCommitHash
     ? `
@@ -448,7 +508,7 @@ ${checkSection}${initialCommitSection}
 ${filesSection([
   { path: opts.specsPath, permission: "READ_ONLY" },
   { path: opts.sessionPath, permission: "READ_ONLY" },
-  ...checkFileEntry,
+  ...checkFileEntries(opts.checks),
   { path: "Source code", permission: "READ_ONLY" },
   { path: opts.reviewPath, permission: "WRITE" },
   { path: `Everything else in ${opts.cugginoPath}`, permission: "IGNORE" },
@@ -498,5 +558,43 @@ Implementation verified.
 <REQUEST_CHANGES>
 What doesn't match and why...
 </REQUEST_CHANGES>
+\`\`\`
+The body may instead be a JSON array of findings: \`[{"file": "src/a.ts", "line": 12, "severity": "error", "message": "What is wrong"}]\`
+
+**NEEDS_HUMAN** - A small clarification question only a human can answer (the session is paused and resumed with the answer; use SPEC_ISSUE for problems in the specs themselves):
+\`\`\`
+<NEEDS_HUMAN>
+The question, with the options you see...
+</NEEDS_HUMAN>
 \`\`\``
 }
+
+/**
+ * Corrective prompt sent by resuming an agent session that ended without a terminal marker.
+ */
+export const markerNudgePrompt = (markers: ReadonlyArray<string>): string =>
+  `Your previous response ended without a required marker. If your work is not finished, finish it now. Then end your response with exactly one of these markers: ${markers.map((marker) => `<${marker}>...</${marker}>`).join(", ")}.`
+
+/**
+ * Prompt sent by resuming an agent session that asked a NEEDS_HUMAN question.
+ */
+export const humanAnswerPrompt = (answer: string): string =>
+  `A human answered your question:\n\n${answer}\n\nContinue your work with this answer, then end your response with a terminal marker as before.`
+
+/**
+ * Prompt section describing the custom markers declared in `.cuggino.json`.
+ * Empty when there are none.
+ */
+export const customMarkersPrompt = (markers: ReadonlyArray<readonly [tag: string, description: string]>): string =>
+  markers.length === 0
+    ? ""
+    : `
+
+## Custom Markers (emit as you work, in addition to the markers above)
+
+${markers.map(([tag, description]) => `**${tag}** - ${description}:
+\`\`\`
+<${tag}>
+Details...
+</${tag}>
+\`\`\``).join("\n\n")}`
@@ -0,0 +1,78 @@
+import { Clock, Data, Duration, Effect, Stream } from "effect"
+
+/**
+ * Error raised when an agent process stops making progress.
+ * `inactivity` — no event (including pings) for `seconds`;
+ * `timeout` — the phase ran longer than `seconds` in total.
+ */
+export class AgentStallError extends Data.TaggedError("AgentStallError")<{
+  readonly reason: "inactivity" | "timeout"
+  readonly seconds: number
+}> {
+  override get message(): string {
+    return this.reason === "inactivity"
+      ? `Agent produced no activity for ${this.seconds}s`
+      : `Agent exceeded the phase time limit of ${this.seconds}s`
+  }
+}
+
+/**
+ * Watchdog limits, in seconds. Absent limits are not enforced.
+ */
+export interface WatchdogOptions {
+  readonly inactivityTimeout?: number | undefined
+  readonly phaseTimeout?: number | undefined
+}
+
+/**
+ * Guard an agent stream with inactivity and wall-clock limits.
+ * When a limit is hit the stream is interrupted — which kills the child process
+ * through the spawn stream's finalizer — and fails with AgentStallError.
+ */
+export const withWatchdog = <A, E, R>(
+  stream: Stream.Stream<A, E, R>,
+  options: WatchdogOptions
+): Stream.Stream<A, E | AgentStallError, R> => {
+  const { inactivityTimeout, phaseTimeout } = options
+  if (inactivityTimeout === undefined && phaseTimeout === undefined) {
+    return stream
+  }
+
+  return Stream.unwrap(
+    Effect.gen(function*() {
+      const state = { lastActivity: yield* Clock.currentTimeMillis }
+      let guarded: Stream.Stream<A, E | AgentStallError, R> = stream.pipe(
+        Stream.tap(() => Clock.currentTimeMillis.pipe(Effect.map((now) => {
+          state.lastActivity = now
+        })))
+      )
+
+      if (inactivityTimeout !== undefined) {
+        const limitMs = inactivityTimeout * 1000
+        // Sleep until the inactivity deadline; if no event moved it in the meantime, fail
+        const watchInactivity = Effect.gen(function*() {
+          while (true) {
+            const idleMs = (yield* Clock.currentTimeMillis) - state.lastActivity
+            if (idleMs >= limitMs) {
+              return yield* new AgentStallError({ reason: "inactivity", seconds: inactivityTimeout })
+            }
+            yield* Effect.sleep(Duration.millis(limitMs - idleMs))
+          }
+        })
+        guarded = guarded.pipe(Stream.interruptWhen(watchInactivity))
+      }
+
+      if (phaseTimeout !== undefined) {
+        guarded = guarded.pipe(
+          Stream.interruptWhen(
+            Effect.sleep(Duration.seconds(phaseTimeout)).pipe(
+              Effect.andThen(Effect.fail(new AgentStallError({ reason: "timeout", seconds: phaseTimeout })))
+            )
+          )
+        )
+      }
+
+      return guarded
+    })
+  )
+}
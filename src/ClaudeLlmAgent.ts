@@ -6,13 +6,16 @@ import { DateTime } from "effect"
 import {
   SystemMessage,
   AgentMessage,
+  ReasoningMessage,
   UserMessage,
   ToolCall,
   ToolResult,
   LlmSessionError,
   PingEvent,
+  UsageEvent,
   type LlmAgentEvent
 } from "./LlmAgentEvent.js"
+import { classifySessionError } from "./classifySessionError.js"
 
 /**
  * Raw Claude stream-json message structure
@@ -24,6 +27,7 @@ interface RawClaudeMessage {
     content?: Array<{
       type: string
       text?: string
+      thinking?: string
       id?: string
       name?: string
       input?: unknown
@@ -38,6 +42,14 @@ interface RawClaudeMessage {
   }
   result?: string
   error?: string
+  is_error?: boolean
+  total_cost_usd?: number
+  usage?: {
+    input_tokens?: number
+    output_tokens?: number
+    cache_creation_input_tokens?: number
+    cache_read_input_tokens?: number
+  }
 }
 
 /**
@@ -46,12 +58,28 @@ interface RawClaudeMessage {
 const isClaudeMessage = (value: unknown): value is RawClaudeMessage =>
   typeof value === "object" && value !== null && "type" in value
 
+/**
+ * Build a UsageEvent from the usage block of a Claude `result` message
+ */
+const parseUsage = (json: RawClaudeMessage): UsageEvent =>
+  new UsageEvent({
+    inputTokens: json.usage?.input_tokens ?? 0,
+    outputTokens: json.usage?.output_tokens ?? 0,
+    cacheReadTokens: json.usage?.cache_read_input_tokens ?? 0,
+    cacheWriteTokens: json.usage?.cache_creation_input_tokens ?? 0,
+    ...(typeof json.total_cost_usd === "number" ? { costUsd: json.total_cost_usd } : {})
+  })
+
 /**
  * Convert raw Claude JSON to LlmAgentEvent(s).
  * Returns an Effect that can fail with LlmSessionError on error results,
  * or succeed with an array of events (empty array for success result, letting stream end naturally).
+ * `toolNames` maps tool-use ids to tool names, since Claude's tool results only carry the id.
  */
-const parseClaudeMessage = (json: unknown): Effect.Effect<Array<LlmAgentEvent>, LlmSessionError> => {
+const parseClaudeMessage = (
+  json: unknown,
+  toolNames: Map<string, string>
+): Effect.Effect<Array<LlmAgentEvent>, LlmSessionError> => {
   if (!isClaudeMessage(json)) {
     return Effect.succeed([])
   }
@@ -72,8 +100,14 @@ const parseClaudeMessage = (json: unknown): Effect.Effect<Array<LlmAgentEvent>,
           if (block.type === "text" && typeof block.text === "string") {
             events.push(new AgentMessage({ text: block.text }))
           }
+          if (block.type === "thinking" && typeof block.thinking === "string" && block.thinking !== "") {
+            events.push(new ReasoningMessage({ text: block.thinking }))
+          }
           if (block.type === "tool_use" && typeof block.name === "string") {
+            const id = block.id ?? "unknown"
+            toolNames.set(id, block.name)
             events.push(new ToolCall({
+              id,
               name: block.name,
               input: block.input ?? null
             }))
@@ -110,8 +144,10 @@ const parseClaudeMessage = (json: unknown): Effect.Effect<Array<LlmAgentEvent>,
             } else {
               output = toolResultData?.stdout ?? ""
             }
+            const callId = block.tool_use_id ?? "unknown"
             events.push(new ToolResult({
-              name: block.tool_use_id ?? "unknown",
+              callId,
+              toolName: toolNames.get(callId) ?? "unknown",
               output,
               isError: block.is_error ?? false
             }))
@@ -122,12 +158,15 @@ const parseClaudeMessage = (json: unknown): Effect.Effect<Array<LlmAgentEvent>,
     }
 
     case "result":
-      if (json.subtype === "success") {
-        // Success - let stream end naturally (return empty array)
-        return Effect.succeed([])
+      if (json.subtype === "success" && json.is_error === true) {
+        // API failures (rate limits, overload) arrive as an errored "success" result
+        return Effect.fail(classifySessionError(json.result ?? "Unknown error"))
+      } else if (json.subtype === "success") {
+        // Success - report usage (if any) and let stream end naturally
+        return Effect.succeed(json.usage ? [parseUsage(json)] : [])
       } else if (json.subtype === "error") {
         // Error - fail the stream
-        return Effect.fail(new LlmSessionError({ message: json.error ?? "Unknown error" }))
+        return Effect.fail(classifySessionError(json.error ?? "Unknown error"))
       }
       break
 
@@ -182,6 +221,10 @@ const createSpawnStream = (
     args.push("--append-system-prompt", options.systemPrompt)
   }
 
+  if (options.model) {
+    args.push("--model", options.model)
+  }
+
   if (options.resume && options.sessionId) {
     args.push("--resume", options.sessionId)
   } else if (options.sessionId) {
@@ -207,11 +250,12 @@ const createSpawnStream = (
         }
       })
     ).pipe(
-      Effect.map((child) =>
+      Effect.map((child) => {
+        const toolNames = new Map<string, string>()
         // Use NodeStream.fromReadable to get the raw byte stream
-        NodeStream.fromReadable<Uint8Array, LlmSessionError>({
+        return NodeStream.fromReadable<Uint8Array, LlmSessionError>({
           evaluate: () => child.stdout!,
-          onError: (err) => new LlmSessionError({ message: err instanceof Error ? err.message : String(err) })
+          onError: (err) => classifySessionError(err instanceof Error ? err.message : String(err))
         }).pipe(
           // Use Effect's stream combinators for text decoding and line splitting
           Stream.decodeText("utf-8"),
@@ -220,10 +264,10 @@ const createSpawnStream = (
           Stream.map(tryParseJson),
           Stream.filter((json): json is unknown => json !== null),
           // Convert JSON to events - use mapEffect + flatMap to handle effectful parsing
-          Stream.mapEffect((json: unknown) => parseClaudeMessage(json)),
+          Stream.mapEffect((json: unknown) => parseClaudeMessage(json, toolNames)),
           Stream.flatMap((events) => Stream.fromIterable(events))
         )
-      )
+      })
     )
   )
 }
@@ -1,11 +1,12 @@
 import { DateTime, Effect, Ref, Stream } from "effect"
+import { formatCount } from "./diagnostics.js"
 import type { LlmAgentEvent } from "./LlmAgentEvent.js"
 import type { LlmMarkerEvent } from "./LlmMarkerEvent.js"
-import { isLlmMarkerEvent } from "./LlmMarkerEvent.js"
-import { isLoopPhaseEvent, type LoopPhaseEvent, type LoopEvent } from "./LoopEvent.js"
-import { isWatchLoopEvent, type WatchLoopEvent } from "./WatchLoopEvent.js"
+import { formatReviewFindings, isLlmMarkerEvent } from "./LlmMarkerEvent.js"
+import { isLoopPhaseEvent, type LoopPhaseEvent, type LoopEvent, type BudgetLimit, type UsageTotals } from "./LoopEvent.js"
+import { isWatchLoopEvent, type WatchItemEvent, type WatchLoopEvent } from "./WatchLoopEvent.js"
 
-export type PrintableEvent = LoopEvent | WatchLoopEvent
+export type PrintableEvent = LoopEvent | WatchLoopEvent | WatchItemEvent
 
 // ANSI escape codes for colors and formatting
 const RESET = "\x1b[0m"
@@ -24,12 +25,16 @@ const DIM_CYAN = "\x1b[2;36m"
 const SPINNER_CHARS = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"]
 
 /**
- * State for the activity spinner
+ * State for the activity spinner.
+ * `toolCallStarts` holds the start time of each pending tool call, by call id.
+ * `terminalPrompts` holds the loops (by label) waiting at a terminal prompt; the spinner is paused while any is open.
  */
 export interface SpinnerState {
   readonly lastOutputWasSpinner: boolean
   readonly lastRealEventTime: DateTime.Utc
   readonly spinnerIndex: number
+  readonly toolCallStarts: ReadonlyMap<string, DateTime.Utc>
+  readonly terminalPrompts: ReadonlySet<string>
 }
 
 /**
@@ -38,7 +43,9 @@ export interface SpinnerState {
 export const makeSpinnerState = (): SpinnerState => ({
   lastOutputWasSpinner: false,
   lastRealEventTime: DateTime.nowUnsafe(),
-  spinnerIndex: 0
+  spinnerIndex: 0,
+  toolCallStarts: new Map(),
+  terminalPrompts: new Set()
 })
 
 /**
@@ -129,21 +136,71 @@ const formatElapsed = (seconds: number): string => {
 }
 
 /**
- * Format an LLM agent event for console output with colors
+ * Format a tool call duration (milliseconds below one second)
  */
-export const formatLlmAgentEvent = (event: LlmAgentEvent, verbose: boolean): string | null => {
+const formatDuration = (ms: number): string =>
+  ms < 1000 ? `${Math.round(ms)}ms` : ms < 60_000 ? `${(ms / 1000).toFixed(1)}s` : formatElapsed(ms / 1000)
+
+/**
+ * Format usage totals as a single line (tokens, cache, and cost when known)
+ */
+const formatUsage = (usage: UsageTotals): string => {
+  const parts = [
+    `${usage.inputTokens} in`,
+    `${usage.outputTokens} out`,
+    `${usage.cacheReadTokens} cache read`,
+    `${usage.cacheWriteTokens} cache write`
+  ]
+  if (usage.costUsd !== undefined) {
+    parts.push(`$${usage.costUsd.toFixed(2)}`)
+  }
+  return parts.join(", ")
+}
+
+/**
+ * Label of a setup or check line, with the step name when the command has named steps
+ */
+const stepLabel = (kind: "Setup" | "Check", step: string | undefined): string =>
+  step === undefined ? kind : `${kind} ${step}`
+
+/**
+ * Format an amount of a budget limit (seconds, tokens, or USD)
+ */
+const formatBudgetAmount = (limit: BudgetLimit, amount: number): string => {
+  switch (limit) {
+    case "duration":
+      return formatElapsed(amount)
+    case "tokens":
+      return `${amount} tokens`
+    case "cost":
+      return `$${amount.toFixed(2)}`
+  }
+}
+
+/**
+ * Format an LLM agent event for console output with colors.
+ * `durationMs` is the time since the matching ToolCall, for tool results.
+ */
+export const formatLlmAgentEvent = (event: LlmAgentEvent, verbose: boolean, durationMs?: number): string | null => {
   switch (event._tag) {
     case "SystemMessage":
       return verbose ? `${DIM}[System] ${event.text}${RESET}` : null
     case "AgentMessage":
       return verbose ? `${DIM}${event.text}${RESET}` : null
+    case "ReasoningMessage":
+      return verbose ? `${DIM}[Thinking] ${event.text}${RESET}` : null
     case "UserMessage":
       return verbose ? `${DIM}[User] ${event.text}${RESET}` : null
     case "ToolCall":
       return `${DIM_CYAN}▶ ${event.name}${formatToolParameters(event.name, event.input)}${RESET}`
-    case "ToolResult":
-      return verbose ? `${DIM}${formatToolResult(event.output)}${RESET}` : null
+    case "ToolResult": {
+      if (!verbose) return null
+      const status = event.isError ? `${RED}✗` : `${DIM}✓`
+      const timing = durationMs !== undefined ? ` (${formatDuration(durationMs)})` : ""
+      return `${status} ${event.toolName}${timing}${RESET}\n${DIM}${formatToolResult(event.output)}${RESET}`
+    }
     case "PingEvent":
+    case "UsageEvent":
       return null
   }
 }
@@ -165,11 +222,15 @@ export const formatLlmMarkerEvent = (event: LlmMarkerEvent, verbose: boolean): s
     case "Approved":
       return `\n${BOLD}${GREEN}[APPROVED]${RESET} ${event.content}\n`
     case "RequestChanges":
-      return `\n${BOLD}${YELLOW}[REQUEST_CHANGES]${RESET} ${event.content}\n`
+      return `\n${BOLD}${YELLOW}[REQUEST_CHANGES]${RESET} ${event.findings !== undefined ? `\n${formatReviewFindings(event.findings)}` : event.content}\n`
     case "PlanComplete":
       return `\n${BOLD}${GREEN}[PLAN_COMPLETE]${RESET} ${event.content}\n`
     case "ToBeDiscussed":
       return `\n${BOLD}${MAGENTA}[TO_BE_DISCUSSED]${RESET} ${event.content}\n`
+    case "NeedsHuman":
+      return `\n${BOLD}${CYAN}[NEEDS_HUMAN]${RESET} ${event.content}\n`
+    case "CustomMarker":
+      return `\n${BOLD}${CYAN}[${event.tag}]${RESET} ${event.content}\n`
   }
 }
 
@@ -193,10 +254,12 @@ export const CLEAR_LINE = "\x1b[2K\r"
 /**
  * Format a LoopPhaseEvent for console output
  */
-export const formatLoopPhaseEvent = (event: LoopPhaseEvent, verbose: boolean): string => {
+export const formatLoopPhaseEvent = (event: LoopPhaseEvent, verbose: boolean): string | null => {
   switch (event._tag) {
     case "IterationStart":
       return `\n${BOLD}[Loop] === Iteration ${event.iteration}/${event.maxIterations} ===${RESET}`
+    case "LoopResumed":
+      return `\n${BOLD}[Loop] Resuming session ${event.sessionId} at iteration ${event.iteration} (${event.phase})${RESET}`
     case "PlanningStart":
       return `\n${DIM}[Planning] Starting...${RESET}`
     case "ImplementingStart":
@@ -204,22 +267,27 @@ export const formatLoopPhaseEvent = (event: LoopPhaseEvent, verbose: boolean): s
     case "ReviewingStart":
       return `\n${DIM}[Reviewing] Starting...${RESET}`
     case "SetupCommandStarting":
-      return `${DIM}[Setup] Running...${RESET}`
+      return `${DIM}[${stepLabel("Setup", event.step)}] Running...${RESET}`
     case "CheckCommandStarting":
-      return `${DIM}[Check] Running...${RESET}`
+      return `${DIM}[${stepLabel("Check", event.step)}] Running...${RESET}`
     case "SetupCommandOutput": {
+      const optional = event.required === false && event.exitCode !== 0 ? ", optional" : ""
       if (!verbose) {
         const label = event.exitCode === 0 ? "Completed" : "Failed"
-        return `${DIM}[Setup] ${label} (exit ${event.exitCode})${RESET}`
+        return `${DIM}[${stepLabel("Setup", event.step)}] ${label} (exit ${event.exitCode}${optional})${RESET}`
       }
-      return `${DIM}[Setup] Output: ${event.filePath} (exit ${event.exitCode})${RESET}`
+      return `${DIM}[${stepLabel("Setup", event.step)}] Output: ${event.filePath} (exit ${event.exitCode}${optional})${RESET}`
     }
     case "CheckCommandOutput": {
+      const counts = event.errors + event.warnings > 0
+        ? `, ${formatCount(event.errors, "error")}, ${formatCount(event.warnings, "warning")}`
+        : ""
+      const optional = event.required === false && event.exitCode !== 0 ? ", optional" : ""
       if (!verbose) {
         const label = event.exitCode === 0 ? "Completed" : "Failed"
-        return `${DIM}[Check] ${label} (exit ${event.exitCode})${RESET}`
+        return `${DIM}[${stepLabel("Check", event.step)}] ${label} (exit ${event.exitCode}${counts}${optional})${RESET}`
       }
-      return `${DIM}[Check] Output: ${event.filePath} (exit ${event.exitCode})${RESET}`
+      return `${DIM}[${stepLabel("Check", event.step)}] Output: ${event.filePath} (exit ${event.exitCode}${counts}${optional})${RESET}`
     }
     case "LoopApproved":
       return `\n${BOLD}${GREEN}[Loop] Implementation approved!${RESET}`
@@ -227,14 +295,57 @@ export const formatLoopPhaseEvent = (event: LoopPhaseEvent, verbose: boolean): s
       return `\n${BOLD}${RED}[Loop] Spec issue: ${event.content}${RESET}\nSaved to: ${event.filename}`
     case "LoopMaxIterations":
       return `\n${BOLD}${YELLOW}[Loop] Max iterations (${event.maxIterations}) reached${RESET}`
+    case "LoopBudgetExceeded":
+      return `\n${BOLD}${YELLOW}[Loop] Budget exceeded: ${formatBudgetAmount(event.limit, event.spent)} spent of ${formatBudgetAmount(event.limit, event.max)}${RESET}`
     case "CommitPerformed":
       return `\n${BOLD_MAGENTA}[Commit] ${event.commitHash}: ${event.message}${RESET}`
+    case "CommitsSquashed":
+      return `\n${BOLD_MAGENTA}[Commit] ${event.commitHash}: squashed ${event.commits} commits into "${event.message.split("\n")[0]}"${RESET}`
+    case "CommitSkipped":
+      return `\n${YELLOW}[Commit] Skipped: ${event.reason}${RESET}`
     case "CommitFailed":
       return `\n${BOLD_RED}[Commit] Failed: ${event.message}${RESET}`
     case "PushPerformed":
       return `\n${BOLD_MAGENTA}[Push] ${event.commitHash} → ${event.remote}${RESET}`
     case "PushFailed":
       return `\n${BOLD_RED}[Push] Failed: ${event.message}${RESET}`
+    case "WorktreeCreated":
+      return `${DIM}[Worktree] Working on branch ${event.branch} in ${event.path}${RESET}`
+    case "WorktreeMerged":
+      return `\n${BOLD_MAGENTA}[Worktree] ${event.mode === "merge" ? "Merged" : "Fast-forwarded"} ${event.branch} (${event.commitHash})${RESET}`
+    case "WorktreeBranchKept":
+      return `\n${BOLD_MAGENTA}[Worktree] Branch ${event.branch} kept (${event.reason})${RESET}`
+    case "FailedWorkReverted":
+      return `${YELLOW}[Loop] Max iterations: commits reverted to ${event.commitHash}${RESET}`
+    case "FailedWorkBranched":
+      return `${YELLOW}[Loop] Max iterations: commits moved to branch ${event.branch}${RESET}`
+    case "FailedWorkKept":
+      return `${BOLD_RED}[Loop] Max iterations: commits kept (${event.reason})${RESET}`
+    case "AgentStalled": {
+      const cause = event.reason === "inactivity"
+        ? `no activity for ${event.seconds}s`
+        : `exceeded ${event.seconds}s phase limit`
+      const next = event.next === "retry" ? "retrying" : event.next === "fallback" ? "switching agent" : "giving up"
+      return `\n${BOLD_RED}[Watchdog] ${event.phase} agent stalled (${cause}), ${next}${RESET}`
+    }
+    case "AgentRetrying":
+      return `\n${YELLOW}[Retry] ${event.phase} agent failed: ${event.message} — retrying in ${event.delaySeconds}s (attempt ${event.attempt}/${event.maxAttempts})${RESET}`
+    case "AgentFallback":
+      return `\n${YELLOW}[Fallback] ${event.phase} agent failed: ${event.message} — switching to ${event.agent}${RESET}`
+    case "MarkerNudge":
+      return `\n${YELLOW}[Nudge] ${event.phase} agent ended without a marker — asking for one (attempt ${event.attempt}/${event.maxAttempts})${RESET}`
+    case "QuestionAsked":
+      return `\n${BOLD}${CYAN}[Question] ${event.phase} agent asks:${RESET} ${event.question}\n${DIM}Waiting for an answer (${event.channel === "file" ? "write it next to the question in .cuggino/questions/" : event.channel})...${RESET}\x07`
+    case "QuestionAnswered":
+      return `${CYAN}[Question] Answered, resuming the ${event.phase} agent${RESET}`
+    case "CustomMarkerActionFailed":
+      return `\n${BOLD_RED}[${event.tag}] ${event.action} action failed: ${event.message}${RESET}`
+    case "PhaseUsage":
+      return verbose ? `${DIM}[Usage] ${event.phase}: ${formatUsage(event.usage)}${RESET}` : null
+    case "IterationUsage":
+      return verbose ? `${DIM}[Usage] Iteration ${event.iteration}: ${formatUsage(event.usage)}${RESET}` : null
+    case "LoopUsage":
+      return `${DIM}[Usage] Total (${event.iterations} iterations): ${formatUsage(event.usage)}${RESET}`
   }
 }
 
@@ -251,6 +362,16 @@ export const formatWatchLoopEvent = (event: WatchLoopEvent): string => {
       return `${DIM}[Watch] Completed: ${event.filename}${RESET}`
     case "WatchItemRetained":
       return `${DIM}[Watch] Retained: ${event.filename} (content changed during loop)${RESET}`
+    case "WatchItemOverBudget":
+      return `${YELLOW}[Watch] Over budget: ${event.filename} (kept, skipped until watch restarts)${RESET}`
+    case "WatchItemFailed":
+      return `${YELLOW}[Watch] Failed: ${event.filename} (moved to ${event.folder} with its plan and review)${RESET}`
+    case "WatchItemMergeFailed":
+      return `${BOLD_RED}[Watch] Merge failed: ${event.filename} (branch ${event.branch} kept, item returned to the backlog with a note)${RESET}`
+    case "WatchItemErrored":
+      return `${BOLD_RED}[Watch] Error: ${event.filename}: ${event.message} (kept, skipped until watch restarts)${RESET}`
+    case "WatchBudgetExhausted":
+      return `\n${BOLD}${YELLOW}[Watch] Session budget exhausted: ${formatBudgetAmount(event.limit, event.spent)} spent of ${formatBudgetAmount(event.limit, event.max)}, stopping${RESET}\x07`
     case "WatchSpecIssueWaiting":
       return `${DIM}[Watch] Spec issue detected, waiting for resolution...${RESET}\x07`
     case "WatchAuditStarted":
@@ -264,19 +385,46 @@ export const formatWatchLoopEvent = (event: WatchLoopEvent): string => {
   }
 }
 
+/**
+ * Prefix every non-empty line with the backlog item of a parallel loop
+ */
+const labelLines = (output: string, label: string): string =>
+  output.split("\n").map((line) => line === "" ? line : `${DIM}[${label}]${RESET} ${line}`).join("\n")
+
 /**
  * Shared helper that computes the CLI output string for an event and updates spinner state.
  * Returns the string to output, or null if there is nothing to output.
+ * Events of parallel loops are printed with their backlog item as a line prefix.
  */
 const computeEventOutput = (
   event: PrintableEvent,
   spinnerState: Ref.Ref<SpinnerState>,
-  verbose: boolean
+  verbose: boolean,
+  label?: string
 ): Effect.Effect<string | null> =>
   Effect.gen(function*() {
-    const state = yield* Ref.get(spinnerState)
+    if (event._tag === "WatchItemEvent") {
+      return yield* computeEventOutput(event.event, spinnerState, verbose, event.filename)
+    }
+
+    let state = yield* Ref.get(spinnerState)
+
+    // Open and close terminal prompts: a question asked in the terminal opens one, its answer or a move to another channel closes it
+    if (event._tag === "QuestionAsked" || event._tag === "QuestionAnswered") {
+      const terminalPrompts = new Set(state.terminalPrompts)
+      if (event._tag === "QuestionAsked" && event.channel === "terminal") {
+        terminalPrompts.add(label ?? "")
+      } else {
+        terminalPrompts.delete(label ?? "")
+      }
+      state = { ...state, terminalPrompts }
+      yield* Ref.set(spinnerState, state)
+    }
 
     if (event._tag === "PingEvent") {
+      // Do not draw over the answer being typed
+      if (state.terminalPrompts.size > 0) return null
+
       const now = DateTime.nowUnsafe()
       const rawDistance = DateTime.distance(now, state.lastRealEventTime)
       const elapsedMs = Math.max(0, Math.abs(rawDistance))
@@ -293,13 +441,30 @@ const computeEventOutput = (
 
       return prefix + spinnerOutput
     } else {
+      // Track tool call start times so results can report their duration
+      let durationMs: number | undefined
+      if (event._tag === "ToolCall" || event._tag === "ToolResult") {
+        const now = DateTime.nowUnsafe()
+        const toolCallStarts = new Map(state.toolCallStarts)
+        if (event._tag === "ToolCall") {
+          toolCallStarts.set(event.id, now)
+        } else {
+          // The provider's own timing wins over the time between the two events
+          const startedAt = toolCallStarts.get(event.callId)
+          durationMs = event.durationMs ?? (startedAt !== undefined ? DateTime.distance(startedAt, now) : undefined)
+          toolCallStarts.delete(event.callId)
+        }
+        yield* Ref.set(spinnerState, { ...state, toolCallStarts })
+        state = { ...state, toolCallStarts }
+      }
+
       const formatted = isWatchLoopEvent(event)
         ? formatWatchLoopEvent(event)
         : isLoopPhaseEvent(event)
           ? formatLoopPhaseEvent(event, verbose)
           : isLlmMarkerEvent(event)
             ? formatLlmMarkerEvent(event as LlmMarkerEvent, verbose)
-            : formatLlmAgentEvent(event as LlmAgentEvent, verbose)
+            : formatLlmAgentEvent(event as LlmAgentEvent, verbose, durationMs)
 
       if (formatted !== null) {
         const prefix = state.lastOutputWasSpinner ? CLEAR_LINE : ""
@@ -308,11 +473,13 @@ const computeEventOutput = (
           lastOutputWasSpinner: false,
           lastRealEventTime: DateTime.nowUnsafe()
         })
-        const output = formatted.endsWith("\n") ? formatted : formatted + "\n"
+        const labelled = label === undefined ? formatted : labelLines(formatted, label)
+        const output = labelled.endsWith("\n") ? labelled : labelled + "\n"
         return prefix + output
       }
 
       // Suppressed non-ping event: reset timer and return spinner output
+      if (state.terminalPrompts.size > 0) return null
       const now = DateTime.nowUnsafe()
       const rawDistance = DateTime.distance(now, state.lastRealEventTime)
       const elapsedMs = Math.max(0, Math.abs(rawDistance))
@@ -1,24 +1,31 @@
-import { Effect, Stream, Layer, DateTime } from "effect"
+import { Effect, Stream, Layer, DateTime, FileSystem } from "effect"
 import { spawn } from "node:child_process"
 import { NodeStream } from "@effect/platform-node"
 import { LlmAgent, type LlmAgentInteractiveOptions, type LlmAgentSpawnOptions } from "./LlmAgent.js"
 import {
   SystemMessage,
   AgentMessage,
+  ReasoningMessage,
   ToolCall,
   ToolResult,
   LlmSessionError,
   PingEvent,
+  UsageEvent,
   type LlmAgentEvent
 } from "./LlmAgentEvent.js"
+import { classifySessionError } from "./classifySessionError.js"
+import { makeAgentSessions, resumedSessionId, type AgentSessions } from "./agentSessions.js"
+import { StorageService } from "./StorageService.js"
 
 /**
  * Raw Codex JSONL event structure
  */
 interface RawCodexEvent {
   type: string
+  thread_id?: string
   item?: {
     id?: string
+    call_id?: string
     type?: string
     name?: string
     arguments?: unknown
@@ -33,7 +40,13 @@ interface RawCodexEvent {
       text?: string
     }>
   }
-  error?: string
+  usage?: {
+    input_tokens?: number
+    cached_input_tokens?: number
+    output_tokens?: number
+  }
+  error?: string | { message?: string }
+  message?: string
 }
 
 /**
@@ -54,15 +67,25 @@ const parseToolInput = (value: unknown): unknown => {
   }
 }
 
+/**
+ * Codex reports errors either as a plain string or as `{ message }`
+ */
+const errorMessage = (error: RawCodexEvent["error"]): string | undefined =>
+  typeof error === "string" ? error : error?.message
+
 const developerInstructionsConfig = (systemPrompt: string): string =>
   `developer_instructions=${JSON.stringify(systemPrompt)}`
 
 /**
  * Convert raw Codex JSON to LlmAgentEvent(s).
- * Returns an Effect that can fail with LlmSessionError on turn.failed,
- * or succeed with an array of events (empty array for turn.completed, letting stream end naturally).
+ * Returns an Effect that can fail with LlmSessionError on turn.failed or error,
+ * or succeed with an array of events (only the usage report for turn.completed, letting stream end naturally).
+ * The thread ID reported by `thread.started` is stored in `session` for resume.
  */
-const parseCodexEvent = (json: unknown): Effect.Effect<Array<LlmAgentEvent>, LlmSessionError> => {
+const parseCodexEvent = (
+  json: unknown,
+  session: { threadId: string | undefined }
+): Effect.Effect<Array<LlmAgentEvent>, LlmSessionError> => {
   if (!isCodexEvent(json)) {
     return Effect.succeed([new PingEvent({ timestamp: DateTime.nowUnsafe() })])
   }
@@ -71,17 +94,20 @@ const parseCodexEvent = (json: unknown): Effect.Effect<Array<LlmAgentEvent>, Llm
 
   switch (json.type) {
     case "thread.started":
+      session.threadId = json.thread_id
       events.push(new SystemMessage({ text: "Session initialized" }))
       break
 
     case "item.started":
       if (json.item?.type === "function_call" && typeof json.item.name === "string") {
         events.push(new ToolCall({
+          id: json.item.call_id ?? json.item.id ?? "unknown",
           name: json.item.name,
           input: parseToolInput(json.item.arguments)
         }))
       } else if (json.item?.type === "command_execution" && typeof json.item.command === "string") {
         events.push(new ToolCall({
+          id: json.item.id ?? "unknown",
           name: "Bash",
           input: { command: json.item.command }
         }))
@@ -91,16 +117,20 @@ const parseCodexEvent = (json: unknown): Effect.Effect<Array<LlmAgentEvent>, Llm
     case "item.completed":
       if (json.item?.type === "function_call_output") {
         events.push(new ToolResult({
-          name: json.item.name ?? "unknown",
+          callId: json.item.call_id ?? json.item.id ?? "unknown",
+          toolName: json.item.name ?? "unknown",
           output: json.item.output ?? "",
           isError: json.item.status === "error"
         }))
       } else if (json.item?.type === "command_execution") {
         events.push(new ToolResult({
-          name: "Bash",
+          callId: json.item.id ?? "unknown",
+          toolName: "Bash",
           output: json.item.aggregated_output ?? "",
           isError: json.item.status === "error" || (typeof json.item.exit_code === "number" && json.item.exit_code !== 0)
         }))
+      } else if (json.item?.type === "reasoning" && typeof json.item.text === "string") {
+        events.push(new ReasoningMessage({ text: json.item.text }))
       } else if (json.item?.type === "agent_message" && typeof json.item.text === "string") {
         events.push(new AgentMessage({ text: json.item.text }))
       } else if (json.item?.type === "message" && json.item.content) {
@@ -112,12 +142,24 @@ const parseCodexEvent = (json: unknown): Effect.Effect<Array<LlmAgentEvent>, Llm
       }
       break
 
-    case "turn.completed":
-      // Stream ends naturally
-      return Effect.succeed([])
+    case "turn.completed": {
+      // Report usage and let the stream end naturally.
+      // Codex counts cached tokens inside input_tokens, so split them out.
+      if (!json.usage) return Effect.succeed([])
+      const cached = json.usage.cached_input_tokens ?? 0
+      return Effect.succeed([new UsageEvent({
+        inputTokens: Math.max(0, (json.usage.input_tokens ?? 0) - cached),
+        outputTokens: json.usage.output_tokens ?? 0,
+        cacheReadTokens: cached,
+        cacheWriteTokens: 0
+      })])
+    }
 
     case "turn.failed":
-      return Effect.fail(new LlmSessionError({ message: json.error ?? "Codex turn failed" }))
+      return Effect.fail(classifySessionError(errorMessage(json.error) ?? "Codex turn failed"))
+
+    case "error":
+      return Effect.fail(classifySessionError(json.message ?? errorMessage(json.error) ?? "Codex error"))
 
     default:
       // Unknown event type - emit a PingEvent as fallback below
@@ -145,10 +187,12 @@ const tryParseJson = (line: string): unknown | null => {
 }
 
 /**
- * Create the spawn stream for Codex using `codex exec --json`
+ * Create the spawn stream for Codex using `codex exec --json`.
+ * With `resume`, continues the Codex thread recorded for the session ID via `codex exec resume`.
  */
 const createSpawnStream = (
-  options: LlmAgentSpawnOptions
+  options: LlmAgentSpawnOptions,
+  sessions: AgentSessions
 ): Stream.Stream<LlmAgentEvent, LlmSessionError> => {
   const args: Array<string> = ["exec", "--json"]
 
@@ -160,18 +204,25 @@ const createSpawnStream = (
     args.push("--config", developerInstructionsConfig(options.systemPrompt))
   }
 
-  // Add the prompt as the final positional argument
-  args.push(options.prompt)
+  if (options.model) {
+    args.push("--model", options.model)
+  }
 
   return Stream.unwrap(
     Effect.acquireRelease(
-      Effect.sync(() => {
-        const child = spawn("codex", args, {
+      // Resume the Codex thread recorded for this session ID
+      resumedSessionId(sessions, "codex", options).pipe(Effect.map((threadId) => {
+        // Add the prompt as the final positional argument
+        const spawnArgs = threadId !== undefined
+          ? [...args, "resume", threadId, options.prompt]
+          : [...args, options.prompt]
+
+        const child = spawn("codex", spawnArgs, {
           cwd: options.cwd,
           stdio: ["ignore", "pipe", "pipe"]
         })
         return child
-      }),
+      })),
       (child) => Effect.sync(() => {
         if (!child.killed) {
           child.kill()
@@ -179,21 +230,29 @@ const createSpawnStream = (
       })
     ).pipe(
       Effect.map((child) => {
+        const session: { threadId: string | undefined } = { threadId: undefined }
+
         const stdoutStream = NodeStream.fromReadable<Uint8Array, LlmSessionError>({
           evaluate: () => child.stdout!,
-          onError: (err) => new LlmSessionError({ message: err instanceof Error ? err.message : String(err) })
+          onError: (err) => classifySessionError(err instanceof Error ? err.message : String(err))
         }).pipe(
           Stream.decodeText("utf-8"),
           Stream.splitLines,
           Stream.map(tryParseJson),
           Stream.filter((json): json is unknown => json !== null),
-          Stream.mapEffect((json: unknown) => parseCodexEvent(json)),
-          Stream.flatMap((events) => Stream.fromIterable(events))
+          Stream.mapEffect((json: unknown) => parseCodexEvent(json, session)),
+          Stream.flatMap((events) => Stream.fromIterable(events)),
+          // Remember Codex's thread ID for resume
+          Stream.ensuring(Effect.suspend(() =>
+            options.sessionId && session.threadId
+              ? sessions.write("codex", options.sessionId, session.threadId)
+              : Effect.void
+          ))
         )
 
         const stderrStream = NodeStream.fromReadable<Uint8Array, LlmSessionError>({
           evaluate: () => child.stderr!,
-          onError: (err) => new LlmSessionError({ message: err instanceof Error ? err.message : String(err) })
+          onError: (err) => classifySessionError(err instanceof Error ? err.message : String(err))
         }).pipe(
           Stream.decodeText("utf-8"),
           Stream.splitLines,
@@ -237,10 +296,14 @@ const createInteractiveSession = (
   })
 }
 
-export const CodexLlmAgentLayer = Layer.succeed(
+export const CodexLlmAgentLayer = Layer.effect(
   LlmAgent,
-  {
-    spawn: (options) => createSpawnStream(options),
-    interactive: (options) => createInteractiveSession(options)
-  }
+  Effect.gen(function*() {
+    const storage = yield* StorageService
+    const sessions = makeAgentSessions(yield* FileSystem.FileSystem, storage.agentSessionsPath)
+    return {
+      spawn: (options) => createSpawnStream(options, sessions),
+      interactive: (options) => createInteractiveSession(options)
+    }
+  })
 )
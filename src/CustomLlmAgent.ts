@@ -0,0 +1,313 @@
+import { Effect, Stream, Layer, DateTime } from "effect"
+import { spawn } from "node:child_process"
+import { NodeStream } from "@effect/platform-node"
+import { LlmAgent, type LlmAgentInteractiveOptions, type LlmAgentSpawnOptions } from "./LlmAgent.js"
+import {
+  AgentMessage,
+  ReasoningMessage,
+  ToolCall,
+  ToolResult,
+  LlmSessionError,
+  PingEvent,
+  type LlmAgentEvent
+} from "./LlmAgentEvent.js"
+import { classifySessionError } from "./classifySessionError.js"
+import { StorageService, type CustomAgentConfig, type CustomAgentEventRule } from "./StorageService.js"
+
+/**
+ * Placeholder values for argument templates
+ */
+type TemplateValues = Partial<Record<"prompt" | "systemPrompt" | "sessionId" | "model", string>>
+
+const PLACEHOLDER = /\{(prompt|systemPrompt|sessionId|model)\}/g
+
+/**
+ * Placeholders of an argument list that have no value
+ */
+const missingPlaceholders = (template: ReadonlyArray<string>, values: TemplateValues): Array<string> =>
+  template.flatMap((arg) =>
+    Array.from(arg.matchAll(PLACEHOLDER), (match) => match[1] as keyof TemplateValues).filter((key) => values[key] === undefined)
+  )
+
+const substitute = (template: ReadonlyArray<string>, values: TemplateValues): Array<string> =>
+  template.map((arg) => arg.replace(PLACEHOLDER, (_, key: keyof TemplateValues) => values[key] ?? ""))
+
+/**
+ * Substitute `{name}` placeholders in an optional argument group.
+ * The group (e.g. `["--model", "{model}"]`) is dropped as a whole when a referenced value is missing.
+ */
+const renderOptionalArgs = (template: ReadonlyArray<string> | undefined, values: TemplateValues): Array<string> =>
+  template === undefined || missingPlaceholders(template, values).length > 0 ? [] : substitute(template, values)
+
+/**
+ * Substitute `{name}` placeholders in a required argument list (`args`, `interactiveArgs`),
+ * failing when a referenced value is missing rather than running the command without it
+ */
+const renderRequiredArgs = (
+  name: string,
+  template: ReadonlyArray<string>,
+  values: TemplateValues
+): Effect.Effect<Array<string>, LlmSessionError> => {
+  const missing = missingPlaceholders(template, values)
+  return missing.length > 0
+    ? Effect.fail(new LlmSessionError({ message: `customAgent.${name} references {${missing[0]}}, which has no value` }))
+    : Effect.succeed(substitute(template, values))
+}
+
+/**
+ * Read a value from a JSON object by dot-path (e.g. `item.content.text`)
+ */
+const getPath = (json: unknown, dotPath: string): unknown =>
+  dotPath.split(".").reduce<unknown>(
+    (value, key) => typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined,
+    json
+  )
+
+const getString = (json: unknown, dotPath: string | undefined): string | undefined => {
+  if (dotPath === undefined) return undefined
+  const value = getPath(json, dotPath)
+  if (value === undefined || value === null) return undefined
+  return typeof value === "string" ? value : JSON.stringify(value)
+}
+
+/**
+ * Tool calls of a session still waiting for their result, oldest first, and the number of calls
+ * given an id of their own (for calls the agent reports without one)
+ */
+interface PendingToolCalls {
+  readonly calls: Array<{ readonly id: string; readonly name: string }>
+  generated: number
+}
+
+/**
+ * Convert a JSON line to LlmAgentEvent(s) using the first matching rule.
+ * Lines that match no rule are treated as heartbeats.
+ * `pending` pairs results with their calls: by call id, or with the oldest pending call of the
+ * tool when the result carries no id.
+ */
+const applyRules = (
+  json: unknown,
+  rules: ReadonlyArray<CustomAgentEventRule>,
+  pending: PendingToolCalls
+): Array<LlmAgentEvent> => {
+  const rule = rules.find((candidate) =>
+    Object.entries(candidate.match).every(([dotPath, expected]) => getPath(json, dotPath) === expected)
+  )
+
+  switch (rule?.emit) {
+    case "AgentMessage": {
+      const text = getString(json, rule.text)
+      return text !== undefined ? [new AgentMessage({ text })] : []
+    }
+    case "ReasoningMessage": {
+      const text = getString(json, rule.text)
+      return text !== undefined ? [new ReasoningMessage({ text })] : []
+    }
+    case "ToolCall": {
+      const name = getString(json, rule.name) ?? "unknown"
+      const id = getString(json, rule.id) ?? `${name}-${++pending.generated}`
+      pending.calls.push({ id, name })
+      return [new ToolCall({
+        id,
+        name,
+        input: rule.input !== undefined ? getPath(json, rule.input) ?? null : null
+      })]
+    }
+    case "ToolResult": {
+      const name = getString(json, rule.name)
+      const callId = getString(json, rule.callId)
+      const index = pending.calls.findIndex((call) =>
+        callId !== undefined ? call.id === callId : name === undefined || call.name === name
+      )
+      const call = index === -1 ? undefined : pending.calls.splice(index, 1)[0]
+      return [new ToolResult({
+        callId: callId ?? call?.id ?? name ?? "unknown",
+        toolName: name ?? call?.name ?? "unknown",
+        output: getString(json, rule.output) ?? "",
+        isError: rule.isError !== undefined && getPath(json, rule.isError) === true
+      })]
+    }
+    case "PingEvent":
+    case undefined:
+      return [new PingEvent({ timestamp: DateTime.nowUnsafe() })]
+  }
+}
+
+/**
+ * Try to parse a line as JSON, returning the parsed value or null
+ */
+const tryParseJson = (line: string): unknown | null => {
+  const trimmed = line.trim()
+  if (!trimmed) return null
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Build the command line for a streaming run
+ */
+const buildArgs = (config: CustomAgentConfig, options: LlmAgentSpawnOptions): Effect.Effect<Array<string>, LlmSessionError> => {
+  const values: TemplateValues = {
+    prompt: options.prompt,
+    systemPrompt: options.systemPrompt,
+    sessionId: options.sessionId,
+    model: options.model
+  }
+  return renderRequiredArgs("args", config.args, values).pipe(
+    Effect.map((args) => [
+      ...(options.dangerouslySkipPermissions ? renderOptionalArgs(config.skipPermissionsArgs, values) : []),
+      ...renderOptionalArgs(config.systemPromptArgs, values),
+      ...renderOptionalArgs(config.modelArgs, values),
+      ...(options.resume ? renderOptionalArgs(config.resumeArgs, values) : renderOptionalArgs(config.sessionArgs, values)),
+      ...args
+    ])
+  )
+}
+
+// Lines of stderr kept for the error of a failed run
+const STDERR_TAIL_LINES = 20
+
+/**
+ * Create the spawn stream for the configured command.
+ * A non-zero exit code fails the stream with an error classified from the end of stderr.
+ */
+const createSpawnStream = (
+  config: CustomAgentConfig,
+  options: LlmAgentSpawnOptions
+): Stream.Stream<LlmAgentEvent, LlmSessionError> =>
+  Stream.unwrap(
+    Effect.acquireRelease(
+      buildArgs(config, options).pipe(
+        Effect.map((args) => {
+          const child = spawn(config.command, args, {
+            cwd: options.cwd,
+            stdio: ["ignore", "pipe", "pipe"]
+          })
+          const exited = new Promise<number | Error>((resolve) => {
+            child.on("close", (code) => resolve(code ?? 0))
+            child.on("error", resolve)
+          })
+          return { child, exited }
+        })
+      ),
+      ({ child }) => Effect.sync(() => {
+        if (!child.killed) {
+          child.kill()
+        }
+      })
+    ).pipe(
+      Effect.map(({ child, exited }) => {
+        const pending: PendingToolCalls = { calls: [], generated: 0 }
+        const stderrTail: Array<string> = []
+        const stdoutStream = NodeStream.fromReadable<Uint8Array, LlmSessionError>({
+          evaluate: () => child.stdout!,
+          onError: (err) => classifySessionError(err instanceof Error ? err.message : String(err))
+        }).pipe(
+          Stream.decodeText(),
+          Stream.splitLines,
+          Stream.map(tryParseJson),
+          Stream.filter((json): json is unknown => json !== null),
+          Stream.flatMap((json) => Stream.fromIterable(applyRules(json, config.events, pending)))
+        )
+
+        const stderrStream = NodeStream.fromReadable<Uint8Array, LlmSessionError>({
+          evaluate: () => child.stderr!,
+          onError: (err) => classifySessionError(err instanceof Error ? err.message : String(err))
+        }).pipe(
+          Stream.decodeText(),
+          Stream.splitLines,
+          Stream.map((line) => {
+            if (line.trim() !== "") stderrTail.push(line)
+            if (stderrTail.length > STDERR_TAIL_LINES) stderrTail.shift()
+            return [] as Array<LlmAgentEvent>
+          }),
+          Stream.flatMap((events) => Stream.fromIterable(events))
+        )
+
+        const checkExit = Effect.promise(() => exited).pipe(
+          Effect.flatMap((result) => {
+            if (result instanceof Error) {
+              return Effect.fail(new LlmSessionError({ message: `${config.command}: ${result.message}` }))
+            }
+            if (result === 0) return Effect.void
+            const detail = stderrTail.join("\n")
+            return Effect.fail(classifySessionError(
+              `${config.command} exited with code ${result}${detail !== "" ? `: ${detail}` : ""}`
+            ))
+          })
+        )
+
+        return Stream.merge(stdoutStream, stderrStream).pipe(
+          Stream.concat(Stream.fromEffectDrain(checkExit))
+        )
+      })
+    )
+  )
+
+/**
+ * Run an interactive session of the configured command with stdio inherited
+ */
+const createInteractiveSession = (
+  config: CustomAgentConfig,
+  options: LlmAgentInteractiveOptions
+): Effect.Effect<number, LlmSessionError> => {
+  if (config.interactiveArgs === undefined) {
+    return Effect.fail(new LlmSessionError({ message: "customAgent.interactiveArgs is not configured" }))
+  }
+
+  const values: TemplateValues = { systemPrompt: options.systemPrompt }
+  return renderRequiredArgs("interactiveArgs", config.interactiveArgs, values).pipe(
+    Effect.flatMap((interactiveArgs) => {
+      const args = [
+        ...(options.dangerouslySkipPermissions ? renderOptionalArgs(config.skipPermissionsArgs, values) : []),
+        ...renderOptionalArgs(config.systemPromptArgs, values),
+        ...interactiveArgs
+      ]
+
+      return Effect.callback<number, LlmSessionError>((resume) => {
+        const child = spawn(config.command, args, {
+          cwd: options.cwd,
+          stdio: "inherit"
+        })
+        child.on("close", (code) => {
+          resume(Effect.succeed(code ?? 0))
+        })
+        child.on("error", (err) => {
+          resume(Effect.fail(new LlmSessionError({ message: err.message })))
+        })
+      })
+    })
+  )
+}
+
+/**
+ * Custom command-based implementation of the LlmAgent service
+ *
+ * The command, argument templates and JSONL event mapping rules are read from
+ * `customAgent` in `.cuggino.json` on every spawn.
+ */
+export const CustomLlmAgentLayer = Layer.effect(
+  LlmAgent,
+  Effect.gen(function*() {
+    const storage = yield* StorageService
+
+    const readCustomConfig = storage.readConfig().pipe(
+      Effect.mapError((error) => new LlmSessionError({ message: error.message })),
+      Effect.flatMap((config) =>
+        config.customAgent !== undefined
+          ? Effect.succeed(config.customAgent)
+          : Effect.fail(new LlmSessionError({ message: "No customAgent configured in .cuggino.json" }))
+      )
+    )
+
+    return {
+      spawn: (options) =>
+        Stream.unwrap(readCustomConfig.pipe(Effect.map((config) => createSpawnStream(config, options)))),
+      interactive: (options) =>
+        readCustomConfig.pipe(Effect.flatMap((config) => createInteractiveSession(config, options)))
+    }
+  })
+)
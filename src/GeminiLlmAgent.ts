@@ -0,0 +1,317 @@
+import { Effect, Stream, Layer, DateTime, FileSystem } from "effect"
+import { spawn } from "node:child_process"
+import { NodeStream } from "@effect/platform-node"
+import { LlmAgent, type LlmAgentInteractiveOptions, type LlmAgentSpawnOptions } from "./LlmAgent.js"
+import {
+  SystemMessage,
+  AgentMessage,
+  ReasoningMessage,
+  UserMessage,
+  ToolCall,
+  ToolResult,
+  LlmSessionError,
+  PingEvent,
+  UsageEvent,
+  type LlmAgentEvent
+} from "./LlmAgentEvent.js"
+import { classifySessionError } from "./classifySessionError.js"
+import { makeAgentSessions, resumedSessionId, type AgentSessions } from "./agentSessions.js"
+import { StorageService } from "./StorageService.js"
+
+/**
+ * Raw Gemini stream-json event structure
+ */
+interface RawGeminiEvent {
+  type: string
+  session_id?: string
+  role?: string
+  content?: string
+  delta?: boolean
+  thought?: boolean
+  subject?: string
+  description?: string
+  tool_name?: string
+  tool_id?: string
+  parameters?: unknown
+  status?: string
+  output?: string
+  severity?: string
+  message?: string
+  error?: {
+    type?: string
+    message?: string
+  }
+  stats?: {
+    input_tokens?: number
+    output_tokens?: number
+    cached?: number
+  }
+}
+
+/**
+ * Type guard for Gemini events
+ */
+const isGeminiEvent = (value: unknown): value is RawGeminiEvent =>
+  typeof value === "object" && value !== null && "type" in value
+
+/**
+ * Per-spawn parser state.
+ * Assistant text arrives as delta chunks; they are buffered and emitted as a single
+ * AgentMessage when the next non-text event (or the end of the stream) arrives.
+ * `toolNames` maps tool ids to tool names, since tool results only carry the id.
+ */
+interface GeminiParserState {
+  text: string
+  sessionId: string | undefined
+  toolNames: Map<string, string>
+}
+
+/**
+ * Flush buffered assistant text as an AgentMessage
+ */
+const flushText = (state: GeminiParserState): Array<LlmAgentEvent> => {
+  if (state.text === "") return []
+  const text = state.text
+  state.text = ""
+  return [new AgentMessage({ text })]
+}
+
+/**
+ * Convert raw Gemini JSON to LlmAgentEvent(s).
+ * Returns an Effect that can fail with LlmSessionError on error results,
+ * or succeed with an array of events (only the usage report for a success result, letting stream end naturally).
+ */
+const parseGeminiEvent = (json: unknown, state: GeminiParserState): Effect.Effect<Array<LlmAgentEvent>, LlmSessionError> => {
+  if (!isGeminiEvent(json)) {
+    return Effect.succeed([new PingEvent({ timestamp: DateTime.nowUnsafe() })])
+  }
+
+  if (json.type === "message" && json.role === "assistant" && json.thought !== true && typeof json.content === "string") {
+    state.text += json.content
+    return Effect.succeed([new PingEvent({ timestamp: DateTime.nowUnsafe() })])
+  }
+
+  const events = flushText(state)
+
+  switch (json.type) {
+    case "init":
+      state.sessionId = json.session_id
+      events.push(new SystemMessage({ text: "Session initialized" }))
+      break
+
+    case "message":
+      if (json.role === "user" && typeof json.content === "string") {
+        events.push(new UserMessage({ text: json.content }))
+      } else if (json.thought === true && typeof json.content === "string" && json.content !== "") {
+        events.push(new ReasoningMessage({ text: json.content }))
+      }
+      break
+
+    case "thought": {
+      // Thought summaries: a short subject and its description
+      const text = [json.subject, json.description ?? json.content].filter((part) => part !== undefined && part !== "").join("\n")
+      if (text !== "") {
+        events.push(new ReasoningMessage({ text }))
+      }
+      break
+    }
+
+    case "tool_use": {
+      const id = json.tool_id ?? "unknown"
+      const name = json.tool_name ?? "unknown"
+      state.toolNames.set(id, name)
+      events.push(new ToolCall({ id, name, input: json.parameters ?? null }))
+      break
+    }
+
+    case "tool_result":
+      events.push(new ToolResult({
+        callId: json.tool_id ?? "unknown",
+        toolName: state.toolNames.get(json.tool_id ?? "unknown") ?? "unknown",
+        output: json.output ?? json.error?.message ?? "",
+        isError: json.status === "error"
+      }))
+      break
+
+    case "error":
+      // Warnings are informational; errors end the session
+      if (json.severity === "error") {
+        return Effect.fail(classifySessionError(json.message ?? "Gemini error"))
+      }
+      break
+
+    case "result": {
+      if (json.status === "error") {
+        return Effect.fail(classifySessionError(json.error?.message ?? "Gemini session failed"))
+      }
+      // Success - report usage (if any) and let stream end naturally.
+      // Gemini counts cached tokens inside input_tokens, so split them out.
+      if (json.stats) {
+        const cached = json.stats.cached ?? 0
+        events.push(new UsageEvent({
+          inputTokens: Math.max(0, (json.stats.input_tokens ?? 0) - cached),
+          outputTokens: json.stats.output_tokens ?? 0,
+          cacheReadTokens: cached,
+          cacheWriteTokens: 0
+        }))
+      }
+      return Effect.succeed(events)
+    }
+
+    default:
+      break
+  }
+
+  return Effect.succeed(
+    events.length > 0
+      ? events
+      : [new PingEvent({ timestamp: DateTime.nowUnsafe() })]
+  )
+}
+
+/**
+ * Try to parse a line as JSON, returning the parsed value or null
+ */
+const tryParseJson = (line: string): unknown | null => {
+  const trimmed = line.trim()
+  if (!trimmed) return null
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Prepend the system prompt to the first user turn of a session.
+ * Gemini has no flag to append to its system prompt, and `GEMINI_SYSTEM_MD` would replace
+ * the built-in one (with its tool-use instructions), so the instructions travel with the prompt.
+ */
+const withSystemPrompt = (systemPrompt: string | undefined, prompt: string): string =>
+  systemPrompt ? `<system-instructions>\n${systemPrompt}\n</system-instructions>\n\n${prompt}` : prompt
+
+/**
+ * Create the spawn stream for Gemini using `gemini --output-format stream-json`.
+ * With `resume`, continues the Gemini session recorded for the session ID (Gemini picks its own IDs).
+ */
+const createSpawnStream = (
+  options: LlmAgentSpawnOptions,
+  sessions: AgentSessions
+): Stream.Stream<LlmAgentEvent, LlmSessionError> => {
+  const args: Array<string> = ["--output-format", "stream-json"]
+
+  if (options.dangerouslySkipPermissions) {
+    args.push("--yolo")
+  }
+
+  if (options.model) {
+    args.push("--model", options.model)
+  }
+
+  return Stream.unwrap(
+    Effect.acquireRelease(
+      // Resume the Gemini session recorded for this session ID.
+      // A resumed session already has the system prompt in its first turn.
+      resumedSessionId(sessions, "gemini", options).pipe(Effect.map((geminiSessionId) => {
+        const spawnArgs = geminiSessionId !== undefined
+          ? [...args, "--resume", geminiSessionId, "--prompt", options.prompt]
+          : [...args, "--prompt", withSystemPrompt(options.systemPrompt, options.prompt)]
+
+        const child = spawn("gemini", spawnArgs, {
+          cwd: options.cwd,
+          stdio: ["ignore", "pipe", "pipe"]
+        })
+        return { child }
+      })),
+      ({ child }) => Effect.sync(() => {
+        if (!child.killed) {
+          child.kill()
+        }
+      })
+    ).pipe(
+      Effect.map(({ child }) => {
+        const state: GeminiParserState = { text: "", sessionId: undefined, toolNames: new Map() }
+
+        const stdoutStream = NodeStream.fromReadable<Uint8Array, LlmSessionError>({
+          evaluate: () => child.stdout!,
+          onError: (err) => classifySessionError(err instanceof Error ? err.message : String(err))
+        }).pipe(
+          Stream.decodeText(),
+          Stream.splitLines,
+          Stream.map(tryParseJson),
+          Stream.filter((json): json is unknown => json !== null),
+          Stream.mapEffect((json: unknown) => parseGeminiEvent(json, state)),
+          Stream.flatMap((events) => Stream.fromIterable(events)),
+          // Emit any trailing text and remember Gemini's session ID for resume
+          Stream.concat(Stream.suspend(() => Stream.fromIterable(flushText(state)))),
+          Stream.ensuring(Effect.suspend(() =>
+            options.sessionId && state.sessionId
+              ? sessions.write("gemini", options.sessionId, state.sessionId)
+              : Effect.void
+          ))
+        )
+
+        const stderrStream = NodeStream.fromReadable<Uint8Array, LlmSessionError>({
+          evaluate: () => child.stderr!,
+          onError: (err) => classifySessionError(err instanceof Error ? err.message : String(err))
+        }).pipe(
+          Stream.decodeText(),
+          Stream.splitLines,
+          Stream.map(() => [] as Array<LlmAgentEvent>),
+          Stream.flatMap((events) => Stream.fromIterable(events))
+        )
+
+        return Stream.merge(stdoutStream, stderrStream)
+      })
+    )
+  )
+}
+
+/**
+ * Run an interactive Gemini session with stdio inherited
+ */
+const createInteractiveSession = (
+  options: LlmAgentInteractiveOptions
+): Effect.Effect<number, LlmSessionError> => {
+  const args: Array<string> = []
+
+  if (options.dangerouslySkipPermissions) {
+    args.push("--yolo")
+  }
+
+  // Start the TUI with the system prompt as its first turn
+  if (options.systemPrompt) {
+    args.push("--prompt-interactive", withSystemPrompt(options.systemPrompt, "Wait for my first message."))
+  }
+
+  return Effect.callback<number, LlmSessionError>((resume) => {
+    const child = spawn("gemini", args, {
+      cwd: options.cwd,
+      stdio: "inherit"
+    })
+    child.on("close", (code) => {
+      resume(Effect.succeed(code ?? 0))
+    })
+    child.on("error", (err) => {
+      resume(Effect.fail(new LlmSessionError({ message: err.message })))
+    })
+  })
+}
+
+/**
+ * Gemini implementation of the LlmAgent service
+ *
+ * Drives the Gemini CLI in stream-json mode. Gemini session IDs are persisted
+ * per session ID so that `resume` continues the right session across restarts.
+ */
+export const GeminiLlmAgentLayer = Layer.effect(
+  LlmAgent,
+  Effect.gen(function*() {
+    const storage = yield* StorageService
+    const sessions = makeAgentSessions(yield* FileSystem.FileSystem, storage.agentSessionsPath)
+    return {
+      spawn: (options) => createSpawnStream(options, sessions),
+      interactive: (options) => createInteractiveSession(options)
+    }
+  })
+)
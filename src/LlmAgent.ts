@@ -1,6 +1,11 @@
 import { Effect, ServiceMap, Stream } from "effect"
 import type { LlmAgentEvent, LlmSessionError } from "./LlmAgentEvent.js"
 
+/**
+ * The role a spawned agent plays in the workflow
+ */
+export type AgentRole = "planning" | "implementing" | "reviewing" | "audit"
+
 /**
  * Options for spawning an LLM agent session
  */
@@ -11,6 +16,10 @@ export interface LlmAgentSpawnOptions {
   readonly prompt: string
   /** Optional system prompt to append */
   readonly systemPrompt?: string
+  /** Optional model override, passed through to the provider CLI */
+  readonly model?: string
+  /** Role of the agent (used to match scripted fixtures) */
+  readonly role?: AgentRole
   /** Skip permission checks (use with caution) */
   readonly dangerouslySkipPermissions?: boolean
   /** Session ID for conversation continuity */
@@ -23,6 +23,16 @@ export class AgentMessage extends Schema.Class<AgentMessage>("AgentMessage")({
   [LlmAgentEventTypeId]: LlmAgentEventTypeId = LlmAgentEventTypeId
 }
 
+/**
+ * Reasoning (thinking) output from the LLM agent, never scanned for markers
+ */
+export class ReasoningMessage extends Schema.Class<ReasoningMessage>("ReasoningMessage")({
+  _tag: Schema.tag("ReasoningMessage"),
+  text: Schema.String
+}) {
+  [LlmAgentEventTypeId]: LlmAgentEventTypeId = LlmAgentEventTypeId
+}
+
 /**
  * User input context (e.g., tool result acknowledgment)
  */
@@ -34,10 +44,12 @@ export class UserMessage extends Schema.Class<UserMessage>("UserMessage")({
 }
 
 /**
- * Agent requesting to execute a tool
+ * Agent requesting to execute a tool.
+ * `id` is the provider's tool-use id, referenced by the matching ToolResult.
  */
 export class ToolCall extends Schema.Class<ToolCall>("ToolCall")({
   _tag: Schema.tag("ToolCall"),
+  id: Schema.String,
   name: Schema.String,
   input: Schema.Unknown
 }) {
@@ -45,13 +57,16 @@ export class ToolCall extends Schema.Class<ToolCall>("ToolCall")({
 }
 
 /**
- * Result from tool execution
+ * Result from tool execution, correlated to its ToolCall by `callId`.
+ * `durationMs` is set when the provider times its tools itself.
  */
 export class ToolResult extends Schema.Class<ToolResult>("ToolResult")({
   _tag: Schema.tag("ToolResult"),
-  name: Schema.String,
+  callId: Schema.String,
+  toolName: Schema.String,
   output: Schema.String,
-  isError: Schema.Boolean
+  isError: Schema.Boolean,
+  durationMs: Schema.optionalKey(Schema.Number)
 }) {
   [LlmAgentEventTypeId]: LlmAgentEventTypeId = LlmAgentEventTypeId
 }
@@ -59,10 +74,16 @@ export class ToolResult extends Schema.Class<ToolResult>("ToolResult")({
 /**
  * Error indicating the LLM session failed.
  * Note: This is used as the error type in streams, not as an event in the union.
+ * `transient` marks failures worth retrying (rate limits, overload, network);
+ * `resetAt` is when a rate limit lifts, if the provider reported it;
+ * `sessionNotFound` marks a resume of a session the provider has no backend session for.
  */
 export class LlmSessionError extends Schema.Class<LlmSessionError>("LlmSessionError")({
   _tag: Schema.tag("LlmSessionError"),
-  message: Schema.String
+  message: Schema.String,
+  transient: Schema.optionalKey(Schema.Boolean),
+  resetAt: Schema.optionalKey(Schema.DateTimeUtc),
+  sessionNotFound: Schema.optionalKey(Schema.Boolean)
 }) {}
 
 /**
@@ -75,16 +96,33 @@ export class PingEvent extends Schema.Class<PingEvent>("PingEvent")({
   [LlmAgentEventTypeId]: LlmAgentEventTypeId = LlmAgentEventTypeId
 }
 
+/**
+ * Token usage reported by the agent (typically once per turn, at the end of the session).
+ * Input tokens exclude cached tokens; cost is only present when the provider reports it.
+ */
+export class UsageEvent extends Schema.Class<UsageEvent>("UsageEvent")({
+  _tag: Schema.tag("UsageEvent"),
+  inputTokens: Schema.Number,
+  outputTokens: Schema.Number,
+  cacheReadTokens: Schema.Number,
+  cacheWriteTokens: Schema.Number,
+  costUsd: Schema.optionalKey(Schema.Number)
+}) {
+  [LlmAgentEventTypeId]: LlmAgentEventTypeId = LlmAgentEventTypeId
+}
+
 /**
  * Union of all LLM agent events
  */
 export type LlmAgentEvent =
   | SystemMessage
   | AgentMessage
+  | ReasoningMessage
   | UserMessage
   | ToolCall
   | ToolResult
   | PingEvent
+  | UsageEvent
 
 /**
  * Schema for encoding/decoding LlmAgentEvent
@@ -92,10 +130,12 @@ export type LlmAgentEvent =
 export const LlmAgentEventSchema = Schema.Union([
   SystemMessage,
   AgentMessage,
+  ReasoningMessage,
   UserMessage,
   ToolCall,
   ToolResult,
-  PingEvent
+  PingEvent,
+  UsageEvent
 ])
 
 export const isLlmAgentEvent = (event: unknown): event is LlmAgentEvent =>
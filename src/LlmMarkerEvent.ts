@@ -1,5 +1,5 @@
-import { Schema } from "effect"
-import type { MarkerExtractorConfig } from "./extractMarkers.js"
+import { Option, Schema } from "effect"
+import type { MarkerAttributes, MarkerExtractorConfig } from "./extractMarkers.js"
 
 export const LlmMarkerEventTypeId: unique symbol = Symbol.for("LlmMarkerEvent")
 export type LlmMarkerEventTypeId = typeof LlmMarkerEventTypeId
@@ -7,12 +7,29 @@ export type LlmMarkerEventTypeId = typeof LlmMarkerEventTypeId
 export const LlmTerminalMarkerEventTypeId: unique symbol = Symbol.for("LlmTerminalMarkerEvent")
 export type LlmTerminalMarkerEventTypeId = typeof LlmTerminalMarkerEventTypeId
 
+/**
+ * Attributes of the marker's opening tag (omitted when there are none)
+ */
+const Attributes = Schema.optionalKey(Schema.Record(Schema.String, Schema.String))
+
+/**
+ * A single review finding, as listed in a JSON `REQUEST_CHANGES` body
+ */
+export const ReviewFinding = Schema.Struct({
+  file: Schema.optionalKey(Schema.String),
+  line: Schema.optionalKey(Schema.Number),
+  severity: Schema.optionalKey(Schema.String),
+  message: Schema.String
+})
+export type ReviewFinding = typeof ReviewFinding.Type
+
 /**
  * Note marker - general observations or comments
  */
 export class Note extends Schema.Class<Note>("Note")({
   _tag: Schema.tag("Note"),
-  content: Schema.String
+  content: Schema.String,
+  attributes: Attributes
 }) {
   [LlmMarkerEventTypeId]: LlmMarkerEventTypeId = LlmMarkerEventTypeId
 }
@@ -22,7 +39,8 @@ export class Note extends Schema.Class<Note>("Note")({
  */
 export class SpecIssue extends Schema.Class<SpecIssue>("SpecIssue")({
   _tag: Schema.tag("SpecIssue"),
-  content: Schema.String
+  content: Schema.String,
+  attributes: Attributes
 }) {
   [LlmMarkerEventTypeId]: LlmMarkerEventTypeId = LlmMarkerEventTypeId;
   [LlmTerminalMarkerEventTypeId]: LlmTerminalMarkerEventTypeId = LlmTerminalMarkerEventTypeId
@@ -33,7 +51,12 @@ export class SpecIssue extends Schema.Class<SpecIssue>("SpecIssue")({
  */
 export class Done extends Schema.Class<Done>("Done")({
   _tag: Schema.tag("Done"),
-  content: Schema.String
+  content: Schema.String,
+  attributes: Attributes,
+  /** Plan task the work belongs to (`task` attribute) */
+  task: Schema.optionalKey(Schema.String),
+  /** Files touched by the task (comma-separated `files` attribute) */
+  files: Schema.optionalKey(Schema.Array(Schema.String))
 }) {
   [LlmMarkerEventTypeId]: LlmMarkerEventTypeId = LlmMarkerEventTypeId;
   [LlmTerminalMarkerEventTypeId]: LlmTerminalMarkerEventTypeId = LlmTerminalMarkerEventTypeId
@@ -44,7 +67,8 @@ export class Done extends Schema.Class<Done>("Done")({
  */
 export class NoMoreWork extends Schema.Class<NoMoreWork>("NoMoreWork")({
   _tag: Schema.tag("NoMoreWork"),
-  content: Schema.String
+  content: Schema.String,
+  attributes: Attributes
 }) {
   [LlmMarkerEventTypeId]: LlmMarkerEventTypeId = LlmMarkerEventTypeId;
   [LlmTerminalMarkerEventTypeId]: LlmTerminalMarkerEventTypeId = LlmTerminalMarkerEventTypeId
@@ -55,7 +79,8 @@ export class NoMoreWork extends Schema.Class<NoMoreWork>("NoMoreWork")({
  */
 export class Approved extends Schema.Class<Approved>("Approved")({
   _tag: Schema.tag("Approved"),
-  content: Schema.String
+  content: Schema.String,
+  attributes: Attributes
 }) {
   [LlmMarkerEventTypeId]: LlmMarkerEventTypeId = LlmMarkerEventTypeId;
   [LlmTerminalMarkerEventTypeId]: LlmTerminalMarkerEventTypeId = LlmTerminalMarkerEventTypeId
@@ -66,7 +91,10 @@ export class Approved extends Schema.Class<Approved>("Approved")({
  */
 export class RequestChanges extends Schema.Class<RequestChanges>("RequestChanges")({
   _tag: Schema.tag("RequestChanges"),
-  content: Schema.String
+  content: Schema.String,
+  attributes: Attributes,
+  /** Individual findings, when the marker body is JSON */
+  findings: Schema.optionalKey(Schema.Array(ReviewFinding))
 }) {
   [LlmMarkerEventTypeId]: LlmMarkerEventTypeId = LlmMarkerEventTypeId;
   [LlmTerminalMarkerEventTypeId]: LlmTerminalMarkerEventTypeId = LlmTerminalMarkerEventTypeId
@@ -77,7 +105,8 @@ export class RequestChanges extends Schema.Class<RequestChanges>("RequestChanges
  */
 export class PlanComplete extends Schema.Class<PlanComplete>("PlanComplete")({
   _tag: Schema.tag("PlanComplete"),
-  content: Schema.String
+  content: Schema.String,
+  attributes: Attributes
 }) {
   [LlmMarkerEventTypeId]: LlmMarkerEventTypeId = LlmMarkerEventTypeId;
   [LlmTerminalMarkerEventTypeId]: LlmTerminalMarkerEventTypeId = LlmTerminalMarkerEventTypeId
@@ -88,7 +117,33 @@ export class PlanComplete extends Schema.Class<PlanComplete>("PlanComplete")({
  */
 export class ToBeDiscussed extends Schema.Class<ToBeDiscussed>("ToBeDiscussed")({
   _tag: Schema.tag("ToBeDiscussed"),
-  content: Schema.String
+  content: Schema.String,
+  attributes: Attributes
+}) {
+  [LlmMarkerEventTypeId]: LlmMarkerEventTypeId = LlmMarkerEventTypeId
+}
+
+/**
+ * Needs human marker - a clarification question; the loop waits for an answer
+ * and resumes the agent's session with it
+ */
+export class NeedsHuman extends Schema.Class<NeedsHuman>("NeedsHuman")({
+  _tag: Schema.tag("NeedsHuman"),
+  content: Schema.String,
+  attributes: Attributes
+}) {
+  [LlmMarkerEventTypeId]: LlmMarkerEventTypeId = LlmMarkerEventTypeId;
+  [LlmTerminalMarkerEventTypeId]: LlmTerminalMarkerEventTypeId = LlmTerminalMarkerEventTypeId
+}
+
+/**
+ * Custom marker - a user-defined marker declared in `customMarkers` of `.cuggino.json`
+ */
+export class CustomMarker extends Schema.Class<CustomMarker>("CustomMarker")({
+  _tag: Schema.tag("CustomMarker"),
+  tag: Schema.String,
+  content: Schema.String,
+  attributes: Attributes
 }) {
   [LlmMarkerEventTypeId]: LlmMarkerEventTypeId = LlmMarkerEventTypeId
 }
@@ -105,6 +160,8 @@ export type LlmMarkerEvent =
   | RequestChanges
   | PlanComplete
   | ToBeDiscussed
+  | NeedsHuman
+  | CustomMarker
 
 /**
  * Schema for encoding/decoding LlmMarkerEvent
@@ -117,7 +174,9 @@ export const LlmMarkerEventSchema = Schema.Union([
   Approved,
   RequestChanges,
   PlanComplete,
-  ToBeDiscussed
+  ToBeDiscussed,
+  NeedsHuman,
+  CustomMarker
 ])
 
 export type LlmTerminalMarkerEvent =
@@ -127,8 +186,9 @@ export type LlmTerminalMarkerEvent =
   | NoMoreWork
   | Approved
   | RequestChanges
+  | NeedsHuman
 
-export type LlmInfoMarkerEvent = Note | ToBeDiscussed
+export type LlmInfoMarkerEvent = Note | ToBeDiscussed | CustomMarker
 
 export const isLlmMarkerEvent = (event: unknown): event is LlmMarkerEvent =>
   typeof event === "object" && event !== null && LlmMarkerEventTypeId in event
@@ -136,9 +196,81 @@ export const isLlmMarkerEvent = (event: unknown): event is LlmMarkerEvent =>
 export const isLlmTerminalMarkerEvent = (event: unknown): event is LlmTerminalMarkerEvent =>
   typeof event === "object" && event !== null && LlmTerminalMarkerEventTypeId in event
 
+/**
+ * Attributes field for a marker event, omitted when the opening tag has none
+ */
+export const markerAttributes = (attributes: MarkerAttributes): { readonly attributes?: MarkerAttributes } =>
+  Object.keys(attributes).length > 0 ? { attributes } : {}
+
+const decodeFindings = Schema.decodeUnknownOption(Schema.Array(ReviewFinding))
+
+/**
+ * Parse review findings from a JSON marker body: either an array of findings
+ * or an object with a `findings` array. Returns undefined for plain-text bodies.
+ */
+export const parseReviewFindings = (content: string): ReadonlyArray<ReviewFinding> | undefined => {
+  let json: unknown
+  try {
+    json = JSON.parse(content)
+  } catch {
+    return undefined
+  }
+  const findings = typeof json === "object" && json !== null && !Array.isArray(json) && "findings" in json
+    ? json.findings
+    : json
+  return Option.getOrUndefined(decodeFindings(findings))
+}
+
+/**
+ * Render review findings as a markdown list: `- file:line (severity): message`
+ */
+export const formatReviewFindings = (findings: ReadonlyArray<ReviewFinding>): string =>
+  findings.map((finding) => {
+    const location = finding.file !== undefined
+      ? `${finding.file}${finding.line !== undefined ? `:${finding.line}` : ""}`
+      : undefined
+    const prefix = [location, finding.severity !== undefined ? `(${finding.severity})` : undefined]
+      .filter((part) => part !== undefined)
+      .join(" ")
+    return `- ${prefix !== "" ? `${prefix}: ` : ""}${finding.message}`
+  }).join("\n")
+
+/**
+ * Body of a RequestChanges marker: its findings as a list when the body was JSON,
+ * otherwise the plain-text content
+ */
+export const requestChangesBody = (marker: RequestChanges): string =>
+  marker.findings !== undefined ? formatReviewFindings(marker.findings) : marker.content
+
+/**
+ * Create a Done marker, reading the `task` and `files` attributes
+ */
+export const makeDone = (content: string, attributes: MarkerAttributes): Done => {
+  const files = attributes.files?.split(",").map((file) => file.trim()).filter((file) => file !== "")
+  return new Done({
+    content,
+    ...markerAttributes(attributes),
+    ...(attributes.task !== undefined ? { task: attributes.task } : {}),
+    ...(files !== undefined && files.length > 0 ? { files } : {})
+  })
+}
+
+/**
+ * Create a RequestChanges marker, parsing findings from a JSON body
+ */
+export const makeRequestChanges = (content: string, attributes: MarkerAttributes): RequestChanges => {
+  const findings = parseReviewFindings(content)
+  return new RequestChanges({
+    content,
+    ...markerAttributes(attributes),
+    ...(findings !== undefined ? { findings } : {})
+  })
+}
+
 /**
  * Default marker extraction config for cuggino markers.
- * Maps XML tag names to factory functions that create the corresponding LlmMarkerEvent.
+ * Maps XML tag names to factory functions that create the corresponding LlmMarkerEvent
+ * from the marker body and the opening tag's attributes.
  */
 export const defaultMarkerConfig: MarkerExtractorConfig<{
   NOTE: Note
@@ -149,13 +281,15 @@ export const defaultMarkerConfig: MarkerExtractorConfig<{
   REQUEST_CHANGES: RequestChanges
   PLAN_COMPLETE: PlanComplete
   TO_BE_DISCUSSED: ToBeDiscussed
+  NEEDS_HUMAN: NeedsHuman
 }> = {
-  NOTE: (content) => new Note({ content }),
-  SPEC_ISSUE: (content) => new SpecIssue({ content }),
-  DONE: (content) => new Done({ content }),
-  NO_MORE_WORK: (content) => new NoMoreWork({ content }),
-  APPROVED: (content) => new Approved({ content }),
-  REQUEST_CHANGES: (content) => new RequestChanges({ content }),
-  PLAN_COMPLETE: (content) => new PlanComplete({ content }),
-  TO_BE_DISCUSSED: (content) => new ToBeDiscussed({ content })
+  NOTE: (content, attributes) => new Note({ content, ...markerAttributes(attributes) }),
+  SPEC_ISSUE: (content, attributes) => new SpecIssue({ content, ...markerAttributes(attributes) }),
+  DONE: makeDone,
+  NO_MORE_WORK: (content, attributes) => new NoMoreWork({ content, ...markerAttributes(attributes) }),
+  APPROVED: (content, attributes) => new Approved({ content, ...markerAttributes(attributes) }),
+  REQUEST_CHANGES: makeRequestChanges,
+  PLAN_COMPLETE: (content, attributes) => new PlanComplete({ content, ...markerAttributes(attributes) }),
+  TO_BE_DISCUSSED: (content, attributes) => new ToBeDiscussed({ content, ...markerAttributes(attributes) }),
+  NEEDS_HUMAN: (content, attributes) => new NeedsHuman({ content, ...markerAttributes(attributes) })
 }
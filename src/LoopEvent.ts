@@ -1,6 +1,7 @@
 import { Schema } from "effect"
 import type { LlmAgentEvent } from "./LlmAgentEvent.js"
 import type { LlmMarkerEvent } from "./LlmMarkerEvent.js"
+import { AgentName, LoopPhase, QuestionChannel } from "./StorageService.js"
 
 export const LoopPhaseEventTypeId: unique symbol = Symbol.for("LoopPhaseEvent")
 export type LoopPhaseEventTypeId = typeof LoopPhaseEventTypeId
@@ -8,6 +9,31 @@ export type LoopPhaseEventTypeId = typeof LoopPhaseEventTypeId
 export const LoopTerminalEventTypeId: unique symbol = Symbol.for("LoopTerminalEvent")
 export type LoopTerminalEventTypeId = typeof LoopTerminalEventTypeId
 
+/**
+ * Aggregated token usage and cost.
+ * Cost is only present when at least one contributing agent run reported it.
+ */
+export const UsageTotals = Schema.Struct({
+  inputTokens: Schema.Number,
+  outputTokens: Schema.Number,
+  cacheReadTokens: Schema.Number,
+  cacheWriteTokens: Schema.Number,
+  costUsd: Schema.optionalKey(Schema.Number)
+})
+
+export type UsageTotals = typeof UsageTotals.Type
+
+/**
+ * Budget limit that ended a loop run or a watch session
+ */
+export const BudgetLimit = Schema.Union([
+  Schema.Literal("duration"),
+  Schema.Literal("tokens"),
+  Schema.Literal("cost")
+])
+
+export type BudgetLimit = typeof BudgetLimit.Type
+
 /**
  * Iteration start event - emitted at the beginning of each iteration
  */
@@ -19,6 +45,18 @@ export class IterationStart extends Schema.Class<IterationStart>("IterationStart
   [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
 }
 
+/**
+ * Loop resumed event - an interrupted loop continues from its checkpoint
+ */
+export class LoopResumed extends Schema.Class<LoopResumed>("LoopResumed")({
+  _tag: Schema.tag("LoopResumed"),
+  sessionId: Schema.String,
+  iteration: Schema.Number,
+  phase: LoopPhase
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
 /**
  * Planning phase start event
  */
@@ -54,7 +92,9 @@ export class ReviewingStart extends Schema.Class<ReviewingStart>("ReviewingStart
  */
 export class SetupCommandStarting extends Schema.Class<SetupCommandStarting>("SetupCommandStarting")({
   _tag: Schema.tag("SetupCommandStarting"),
-  iteration: Schema.Number
+  iteration: Schema.Number,
+  /** Step name, absent for a single setup command */
+  step: Schema.optionalKey(Schema.String)
 }) {
   [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
 }
@@ -64,7 +104,9 @@ export class SetupCommandStarting extends Schema.Class<SetupCommandStarting>("Se
  */
 export class CheckCommandStarting extends Schema.Class<CheckCommandStarting>("CheckCommandStarting")({
   _tag: Schema.tag("CheckCommandStarting"),
-  iteration: Schema.Number
+  iteration: Schema.Number,
+  /** Step name, absent for a single check command */
+  step: Schema.optionalKey(Schema.String)
 }) {
   [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
 }
@@ -75,6 +117,9 @@ export class CheckCommandStarting extends Schema.Class<CheckCommandStarting>("Ch
 export class SetupCommandOutput extends Schema.Class<SetupCommandOutput>("SetupCommandOutput")({
   _tag: Schema.tag("SetupCommandOutput"),
   iteration: Schema.Number,
+  step: Schema.optionalKey(Schema.String),
+  /** Whether a failure of the step stops the loop */
+  required: Schema.optionalKey(Schema.Boolean),
   filePath: Schema.String,
   exitCode: Schema.Number
 }) {
@@ -87,8 +132,13 @@ export class SetupCommandOutput extends Schema.Class<SetupCommandOutput>("SetupC
 export class CheckCommandOutput extends Schema.Class<CheckCommandOutput>("CheckCommandOutput")({
   _tag: Schema.tag("CheckCommandOutput"),
   iteration: Schema.Number,
+  step: Schema.optionalKey(Schema.String),
+  /** Whether a failure of the step counts as a failed check */
+  required: Schema.optionalKey(Schema.Boolean),
   filePath: Schema.String,
-  exitCode: Schema.Number
+  exitCode: Schema.Number,
+  errors: Schema.Number,
+  warnings: Schema.Number
 }) {
   [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
 }
@@ -129,6 +179,21 @@ export class LoopMaxIterations extends Schema.Class<LoopMaxIterations>("LoopMaxI
   [LoopTerminalEventTypeId]: LoopTerminalEventTypeId = LoopTerminalEventTypeId
 }
 
+/**
+ * Loop budget exceeded event - a duration, token or cost limit was reached.
+ * `max` and `spent` are in seconds, tokens or USD depending on the limit.
+ */
+export class LoopBudgetExceeded extends Schema.Class<LoopBudgetExceeded>("LoopBudgetExceeded")({
+  _tag: Schema.tag("LoopBudgetExceeded"),
+  iteration: Schema.Number,
+  limit: BudgetLimit,
+  max: Schema.Number,
+  spent: Schema.Number
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId;
+  [LoopTerminalEventTypeId]: LoopTerminalEventTypeId = LoopTerminalEventTypeId
+}
+
 /**
  * Commit performed event - auto-commit succeeded after implementing phase
  */
@@ -141,6 +206,30 @@ export class CommitPerformed extends Schema.Class<CommitPerformed>("CommitPerfor
   [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
 }
 
+/**
+ * Commits squashed event - the loop's commits were squashed into one on approval
+ */
+export class CommitsSquashed extends Schema.Class<CommitsSquashed>("CommitsSquashed")({
+  _tag: Schema.tag("CommitsSquashed"),
+  iteration: Schema.Number,
+  commitHash: Schema.String,
+  commits: Schema.Number,
+  message: Schema.String
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Commit skipped event - auto-commit was skipped after the implementing phase, with the reason
+ */
+export class CommitSkipped extends Schema.Class<CommitSkipped>("CommitSkipped")({
+  _tag: Schema.tag("CommitSkipped"),
+  iteration: Schema.Number,
+  reason: Schema.String
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
 /**
  * Commit failed event - auto-commit failed after implementing phase
  */
@@ -175,11 +264,211 @@ export class PushFailed extends Schema.Class<PushFailed>("PushFailed")({
   [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
 }
 
+/**
+ * Agent stalled event - the watchdog killed an agent that went quiet or ran past the phase time limit.
+ * `next` is what the loop does about it: re-run the phase, switch to a fallback agent, or give up.
+ */
+export class AgentStalled extends Schema.Class<AgentStalled>("AgentStalled")({
+  _tag: Schema.tag("AgentStalled"),
+  iteration: Schema.Number,
+  phase: LoopPhase,
+  reason: Schema.Union([Schema.Literal("inactivity"), Schema.Literal("timeout")]),
+  seconds: Schema.Number,
+  attempt: Schema.Number,
+  next: Schema.Union([Schema.Literal("retry"), Schema.Literal("fallback"), Schema.Literal("give-up")])
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Agent retrying event - a phase failed with a transient error and will be re-run after a delay
+ */
+export class AgentRetrying extends Schema.Class<AgentRetrying>("AgentRetrying")({
+  _tag: Schema.tag("AgentRetrying"),
+  iteration: Schema.Number,
+  phase: LoopPhase,
+  attempt: Schema.Number,
+  maxAttempts: Schema.Number,
+  delaySeconds: Schema.Number,
+  message: Schema.String
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Agent fallback event - a phase kept failing and is re-run on the next agent of the fallback chain
+ */
+export class AgentFallback extends Schema.Class<AgentFallback>("AgentFallback")({
+  _tag: Schema.tag("AgentFallback"),
+  iteration: Schema.Number,
+  phase: LoopPhase,
+  agent: AgentName,
+  message: Schema.String
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Marker nudge event - a phase ended without a terminal marker and the agent session is resumed
+ * with a corrective prompt
+ */
+export class MarkerNudge extends Schema.Class<MarkerNudge>("MarkerNudge")({
+  _tag: Schema.tag("MarkerNudge"),
+  iteration: Schema.Number,
+  phase: LoopPhase,
+  attempt: Schema.Number,
+  maxAttempts: Schema.Number
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Question asked event - an agent emitted NEEDS_HUMAN and the loop waits for an answer
+ */
+export class QuestionAsked extends Schema.Class<QuestionAsked>("QuestionAsked")({
+  _tag: Schema.tag("QuestionAsked"),
+  iteration: Schema.Number,
+  phase: LoopPhase,
+  question: Schema.String,
+  channel: QuestionChannel
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Question answered event - the agent session is resumed with the answer
+ */
+export class QuestionAnswered extends Schema.Class<QuestionAnswered>("QuestionAnswered")({
+  _tag: Schema.tag("QuestionAnswered"),
+  iteration: Schema.Number,
+  phase: LoopPhase,
+  answer: Schema.String
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Custom marker action failed event - the action declared for a custom marker could not be performed
+ */
+export class CustomMarkerActionFailed extends Schema.Class<CustomMarkerActionFailed>("CustomMarkerActionFailed")({
+  _tag: Schema.tag("CustomMarkerActionFailed"),
+  iteration: Schema.Number,
+  tag: Schema.String,
+  action: Schema.String,
+  message: Schema.String
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Phase usage event - token usage of a single agent phase, emitted when the phase ends
+ */
+export class PhaseUsage extends Schema.Class<PhaseUsage>("PhaseUsage")({
+  _tag: Schema.tag("PhaseUsage"),
+  iteration: Schema.Number,
+  phase: LoopPhase,
+  usage: UsageTotals
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Iteration usage event - token usage of all phases in an iteration
+ */
+export class IterationUsage extends Schema.Class<IterationUsage>("IterationUsage")({
+  _tag: Schema.tag("IterationUsage"),
+  iteration: Schema.Number,
+  usage: UsageTotals
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Loop usage event - token usage of the whole loop run, emitted after the terminal event
+ */
+export class LoopUsage extends Schema.Class<LoopUsage>("LoopUsage")({
+  _tag: Schema.tag("LoopUsage"),
+  iterations: Schema.Number,
+  usage: UsageTotals
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Worktree created event - the loop runs in a git worktree on its own branch
+ */
+export class WorktreeCreated extends Schema.Class<WorktreeCreated>("WorktreeCreated")({
+  _tag: Schema.tag("WorktreeCreated"),
+  path: Schema.String,
+  branch: Schema.String
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Worktree merged event - the approved branch was merged or fast-forwarded into the working tree
+ */
+export class WorktreeMerged extends Schema.Class<WorktreeMerged>("WorktreeMerged")({
+  _tag: Schema.tag("WorktreeMerged"),
+  iteration: Schema.Number,
+  branch: Schema.String,
+  mode: Schema.Union([Schema.Literal("merge"), Schema.Literal("fast-forward")]),
+  commitHash: Schema.String
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Worktree branch kept event - the worktree was removed but its branch was left for the user
+ */
+export class WorktreeBranchKept extends Schema.Class<WorktreeBranchKept>("WorktreeBranchKept")({
+  _tag: Schema.tag("WorktreeBranchKept"),
+  iteration: Schema.Number,
+  branch: Schema.String,
+  reason: Schema.String
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Failed work reverted event - the commits of a loop that hit max iterations were reset away
+ */
+export class FailedWorkReverted extends Schema.Class<FailedWorkReverted>("FailedWorkReverted")({
+  _tag: Schema.tag("FailedWorkReverted"),
+  iteration: Schema.Number,
+  commitHash: Schema.String
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Failed work branched event - the commits of a loop that hit max iterations were moved to a branch
+ */
+export class FailedWorkBranched extends Schema.Class<FailedWorkBranched>("FailedWorkBranched")({
+  _tag: Schema.tag("FailedWorkBranched"),
+  iteration: Schema.Number,
+  branch: Schema.String
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
+/**
+ * Failed work kept event - the max-iterations policy could not be applied, the commits stay where they are
+ */
+export class FailedWorkKept extends Schema.Class<FailedWorkKept>("FailedWorkKept")({
+  _tag: Schema.tag("FailedWorkKept"),
+  iteration: Schema.Number,
+  reason: Schema.String
+}) {
+  [LoopPhaseEventTypeId]: LoopPhaseEventTypeId = LoopPhaseEventTypeId
+}
+
 /**
  * Union of all loop phase events
  */
 export type LoopPhaseEvent =
   | IterationStart
+  | LoopResumed
   | PlanningStart
   | ImplementingStart
   | ReviewingStart
@@ -190,18 +479,39 @@ export type LoopPhaseEvent =
   | LoopApproved
   | LoopSpecIssue
   | LoopMaxIterations
+  | LoopBudgetExceeded
   | CommitPerformed
+  | CommitsSquashed
+  | CommitSkipped
   | CommitFailed
   | PushPerformed
   | PushFailed
+  | WorktreeCreated
+  | WorktreeMerged
+  | WorktreeBranchKept
+  | FailedWorkReverted
+  | FailedWorkBranched
+  | FailedWorkKept
+  | AgentStalled
+  | AgentRetrying
+  | AgentFallback
+  | MarkerNudge
+  | QuestionAsked
+  | QuestionAnswered
+  | CustomMarkerActionFailed
+  | PhaseUsage
+  | IterationUsage
+  | LoopUsage
 
 export type LoopTerminalEvent =
   | LoopApproved
   | LoopSpecIssue
   | LoopMaxIterations
+  | LoopBudgetExceeded
 
 export type LoopInfoEvent =
   | IterationStart
+  | LoopResumed
   | PlanningStart
   | ImplementingStart
   | ReviewingStart
@@ -209,6 +519,16 @@ export type LoopInfoEvent =
   | CheckCommandStarting
   | SetupCommandOutput
   | CheckCommandOutput
+  | AgentStalled
+  | AgentRetrying
+  | AgentFallback
+  | MarkerNudge
+  | QuestionAsked
+  | QuestionAnswered
+  | CustomMarkerActionFailed
+  | PhaseUsage
+  | IterationUsage
+  | LoopUsage
 
 export const isLoopPhaseEvent = (event: unknown): event is LoopPhaseEvent =>
   typeof event === "object" && event !== null && LoopPhaseEventTypeId in event
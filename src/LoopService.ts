@@ -1,10 +1,20 @@
-import { Effect, Layer, ServiceMap, Data, Stream, Option, Queue, Schema } from "effect"
+import { DateTime, Duration, Effect, FileSystem, Layer, Path, ServiceMap, Data, Stream, Option, Queue, Schema } from "effect"
 import * as Uuid from "uuid"
 import { ChildProcess, ChildProcessSpawner } from "effect/unstable/process"
-import { LlmAgent } from "./LlmAgent.js"
+import { LlmAgent, type LlmAgentShape } from "./LlmAgent.js"
+import { AgentLayerMap, resolvePhaseAgent } from "./AgentLayerMap.js"
+import { AgentRecorder } from "./ScriptedLlmAgent.js"
 import { SessionService, SessionServiceMap, SessionError, SessionKey } from "./SessionService.js"
-import { StorageService, StorageError } from "./StorageService.js"
-import { planningPrompt, replanningPrompt, implementingPrompt, reviewingPrompt } from "./AgentPrompts.js"
+import { StorageService, StorageError, type AgentName, type BudgetConfig, type CommitGate, type CommandConfig, type CommitStrategy, type DiagnosticFormat, type PhaseAgentConfig, type CustomMarkerConfig, type LoopCheckpoint, type LoopPhase, type MaxIterationsPolicy, type PhasesConfig, type QuestionsConfig, type RetryConfig, type WatchdogConfig, type WorktreeConfig } from "./StorageService.js"
+import { withWatchdog, type AgentStallError } from "./AgentWatchdog.js"
+import { planningPrompt, replanningPrompt, implementingPrompt, reviewingPrompt, markerNudgePrompt, humanAnswerPrompt, customMarkersPrompt, type CheckResult } from "./AgentPrompts.js"
+import { askHuman } from "./humanQuestions.js"
+import { customMarkerConfig, customMarkersForPhase, runCustomMarkerAction } from "./customMarkers.js"
+import { NotificationService } from "./NotificationService.js"
+import { budgetOverrun, budgetSpent } from "./budgets.js"
+import { readCheckDiagnostics } from "./diagnostics.js"
+import { commandSteps, type ResolvedStep } from "./commandSteps.js"
+import { commitsSince, createBranch, createWorktree, deleteWorktreeBranch, mergeWorktreeBranch, removeWorktree, renameBranch, resetToCommit, worktreeBranch, WorktreeError, type LoopWorktree } from "./worktrees.js"
 import { extractMarkers, type MarkerExtractorConfig } from "./extractMarkers.js"
 import {
   Note,
@@ -14,11 +24,19 @@ import {
   Approved,
   RequestChanges,
   PlanComplete,
-  isLlmMarkerEvent
+  NeedsHuman,
+  CustomMarker,
+  isLlmMarkerEvent,
+  markerAttributes,
+  type LlmMarkerEvent,
+  makeDone,
+  makeRequestChanges,
+  requestChangesBody
 } from "./LlmMarkerEvent.js"
-import type { LlmAgentEvent, LlmSessionError } from "./LlmAgentEvent.js"
+import { isLlmAgentEvent, type LlmAgentEvent, type LlmSessionError } from "./LlmAgentEvent.js"
 import {
   IterationStart,
+  LoopResumed,
   PlanningStart,
   ImplementingStart,
   ReviewingStart,
@@ -29,11 +47,31 @@ import {
   LoopApproved,
   LoopSpecIssue,
   LoopMaxIterations,
+  LoopBudgetExceeded,
   CommitPerformed,
+  CommitsSquashed,
+  CommitSkipped,
   CommitFailed,
   PushPerformed,
   PushFailed,
-  type LoopEvent
+  WorktreeCreated,
+  WorktreeMerged,
+  WorktreeBranchKept,
+  FailedWorkReverted,
+  FailedWorkBranched,
+  FailedWorkKept,
+  AgentStalled,
+  AgentRetrying,
+  AgentFallback,
+  MarkerNudge,
+  QuestionAsked,
+  QuestionAnswered,
+  PhaseUsage,
+  IterationUsage,
+  LoopUsage,
+  type LoopEvent,
+  type LoopTerminalEvent,
+  type UsageTotals
 } from "./LoopEvent.js"
 
 /**
@@ -57,11 +95,53 @@ export interface LoopRunOptions {
   readonly specsPath: string
   readonly cwd: string
   readonly maxIterations?: number
-  readonly setupCommand?: string
-  readonly checkCommand?: string
+  readonly setupCommand?: CommandConfig
+  readonly checkCommand?: CommandConfig
   readonly commit?: boolean
+  /** How auto-commit commits (default `per-task`) */
+  readonly commitStrategy?: CommitStrategy
+  /** Run the check command before each auto-commit, and what to do when it fails */
+  readonly commitGate?: CommitGate
+  /** Output formats whose diagnostics are summarized from the check output (default: all) */
+  readonly diagnosticFormats?: ReadonlyArray<DiagnosticFormat>
   readonly push?: string
   readonly slowMode?: boolean
+  /** Per-phase agent and model overrides */
+  readonly phases?: PhasesConfig
+  /** Stall watchdog limits for agent processes */
+  readonly watchdog?: WatchdogConfig
+  /** Retry policy for transient agent failures */
+  readonly retry?: RetryConfig
+  /** Agents a failing phase falls back to, in order */
+  readonly fallbackAgents?: ReadonlyArray<AgentName>
+  /** How many times an agent that ended without a terminal marker is re-prompted */
+  readonly markerNudges?: number
+  /** How NEEDS_HUMAN questions are asked */
+  readonly questions?: QuestionsConfig
+  /** User-defined markers and their actions, by tag */
+  readonly customMarkers?: Readonly<Record<string, CustomMarkerConfig>>
+  /** Duration, token and cost limits for this run */
+  readonly budget?: BudgetConfig
+  /** Run the loop in a git worktree on its own branch */
+  readonly worktree?: WorktreeConfig
+  /** Awaited before an approved worktree branch is merged (lets parallel loops merge in order) */
+  readonly beforeMerge?: Effect.Effect<void>
+  /** What happens to the loop's commits when it hits max iterations (default `keep`) */
+  readonly onMaxIterations?: MaxIterationsPolicy
+  /** Folder the session's plan and review are copied to when the loop hits max iterations */
+  readonly failedDir?: string
+  /** Continue an interrupted loop from its checkpoint instead of starting a new session */
+  readonly resume?: LoopCheckpoint
+}
+
+/**
+ * How a phase agent is spawned: a new session, or — with `followUp` — the same session
+ * resumed with a follow-up prompt (a marker nudge or a human's answer) instead of the phase prompt
+ */
+interface PhaseSpawn {
+  readonly model: string | undefined
+  readonly sessionId: string
+  readonly followUp: string | undefined
 }
 
 /**
@@ -84,9 +164,11 @@ export class LoopService extends ServiceMap.Service<LoopService, LoopServiceShap
 const planningMarkerConfig: MarkerExtractorConfig<{
   SPEC_ISSUE: SpecIssue
   PLAN_COMPLETE: PlanComplete
+  NEEDS_HUMAN: NeedsHuman
 }> = {
-  SPEC_ISSUE: (content) => new SpecIssue({ content }),
-  PLAN_COMPLETE: (content) => new PlanComplete({ content })
+  SPEC_ISSUE: (content, attributes) => new SpecIssue({ content, ...markerAttributes(attributes) }),
+  PLAN_COMPLETE: (content, attributes) => new PlanComplete({ content, ...markerAttributes(attributes) }),
+  NEEDS_HUMAN: (content, attributes) => new NeedsHuman({ content, ...markerAttributes(attributes) })
 }
 
 const implementingMarkerConfig: MarkerExtractorConfig<{
@@ -94,36 +176,87 @@ const implementingMarkerConfig: MarkerExtractorConfig<{
   SPEC_ISSUE: SpecIssue
   DONE: Done
   NO_MORE_WORK: NoMoreWork
+  NEEDS_HUMAN: NeedsHuman
 }> = {
-  NOTE: (content) => new Note({ content }),
-  SPEC_ISSUE: (content) => new SpecIssue({ content }),
-  DONE: (content) => new Done({ content }),
-  NO_MORE_WORK: (content) => new NoMoreWork({ content })
+  NOTE: (content, attributes) => new Note({ content, ...markerAttributes(attributes) }),
+  SPEC_ISSUE: (content, attributes) => new SpecIssue({ content, ...markerAttributes(attributes) }),
+  DONE: makeDone,
+  NO_MORE_WORK: (content, attributes) => new NoMoreWork({ content, ...markerAttributes(attributes) }),
+  NEEDS_HUMAN: (content, attributes) => new NeedsHuman({ content, ...markerAttributes(attributes) })
 }
 
 const reviewingMarkerConfig: MarkerExtractorConfig<{
   SPEC_ISSUE: SpecIssue
   APPROVED: Approved
   REQUEST_CHANGES: RequestChanges
+  NEEDS_HUMAN: NeedsHuman
 }> = {
-  SPEC_ISSUE: (content) => new SpecIssue({ content }),
-  APPROVED: (content) => new Approved({ content }),
-  REQUEST_CHANGES: (content) => new RequestChanges({ content })
+  SPEC_ISSUE: (content, attributes) => new SpecIssue({ content, ...markerAttributes(attributes) }),
+  APPROVED: (content, attributes) => new Approved({ content, ...markerAttributes(attributes) }),
+  REQUEST_CHANGES: makeRequestChanges,
+  NEEDS_HUMAN: (content, attributes) => new NeedsHuman({ content, ...markerAttributes(attributes) })
 }
 
-const hasCommand = (cmd: string | undefined): cmd is string =>
-  cmd !== undefined && cmd.trim() !== ""
+/**
+ * Events an agent may still emit after its terminal marker without doing further work
+ */
+const isTrailingEvent = (event: unknown): boolean =>
+  isLlmAgentEvent(event) && (event._tag === "PingEvent" || event._tag === "UsageEvent")
+
+/**
+ * Add a usage report to running totals.
+ * Cost stays absent until at least one report includes it.
+ */
+const addUsage = (totals: UsageTotals | null, report: UsageTotals): UsageTotals => {
+  const costUsd = totals?.costUsd === undefined && report.costUsd === undefined
+    ? undefined
+    : (totals?.costUsd ?? 0) + (report.costUsd ?? 0)
+  return {
+    inputTokens: (totals?.inputTokens ?? 0) + report.inputTokens,
+    outputTokens: (totals?.outputTokens ?? 0) + report.outputTokens,
+    cacheReadTokens: (totals?.cacheReadTokens ?? 0) + report.cacheReadTokens,
+    cacheWriteTokens: (totals?.cacheWriteTokens ?? 0) + report.cacheWriteTokens,
+    ...(costUsd !== undefined ? { costUsd } : {})
+  }
+}
+
+/**
+ * Delay before retrying a transient failure: wait until the rate limit resets when the
+ * provider reported it, otherwise back off exponentially from `initialDelay` up to `maxDelay`.
+ */
+const retryDelayMs = (error: LlmSessionError, failures: number, retry: RetryConfig | undefined): number => {
+  if (error.resetAt !== undefined) {
+    return Math.max(0, DateTime.distance(DateTime.nowUnsafe(), error.resetAt))
+  }
+  const initialMs = (retry?.initialDelay ?? 10) * 1000
+  const maxMs = (retry?.maxDelay ?? 300) * 1000
+  return Math.min(maxMs, initialMs * 2 ** (failures - 1))
+}
 
 /**
  * Run a shell command and stream its output directly to a file.
+ * A command still running after `timeout` seconds is stopped, with every process it started
+ * (the command runs in its own process group), and gets exit code 124 (like `timeout(1)`).
  * This function NEVER fails - it always returns an exit code (-1 on error).
  */
-const runShellCommandToFile = (command: string, cwd: string, filePath: string): Effect.Effect<number, never, ChildProcessSpawner.ChildProcessSpawner> =>
+const runShellCommandToFile = (
+  command: string,
+  cwd: string,
+  filePath: string,
+  fs: FileSystem.FileSystem,
+  timeout?: number
+): Effect.Effect<number, never, ChildProcessSpawner.ChildProcessSpawner> =>
   Effect.gen(function*() {
     const escaped = filePath.replace(/'/g, "'\\''")
-    const cmd = ChildProcess.make({ cwd, shell: true })`(${command}) > '${escaped}' 2>&1`
+    const cmd = ChildProcess.make({ cwd, shell: true, detached: true })`(${command}) > '${escaped}' 2>&1`
     const handle = yield* ChildProcess.spawn(cmd)
-    return yield* handle.exitCode
+    if (timeout === undefined) return yield* handle.exitCode
+    const exitCode = yield* handle.exitCode.pipe(Effect.timeoutOption(Duration.seconds(timeout)))
+    if (Option.isSome(exitCode)) return exitCode.value
+    // Kill the process group, not just the shell, so that no process of the command keeps running
+    yield* handle.kill({ forceKillAfter: Duration.seconds(5) }).pipe(Effect.ignore)
+    yield* fs.writeFileString(filePath, `\n[cuggino] Timed out after ${timeout}s\n`, { flag: "a" }).pipe(Effect.ignore)
+    return 124
   }).pipe(
     Effect.scoped,
     Effect.catch(() => Effect.succeed(-1))
@@ -187,6 +320,88 @@ const performAutoCommit = (
     )
   )
 
+/**
+ * Message of a squashed commit: the plan's title, the `DONE` contents from the session file,
+ * and trailers naming the backlog file (for `@file` focuses) and the session
+ */
+const squashCommitMessage = (session: string, focus: string, sessionId: string): string => {
+  const title = /^#\s+(.+)$/m.exec(session.split("\n# Progress Log")[0])?.[1].trim() ?? focus
+  const done = Array.from(
+    session.matchAll(/^## [^\n]* \(DONE\)\n\n([\s\S]*?)\n(?=\n## |$)/gm),
+    (match) => `- ${match[1].trim().replace(/\n/g, "\n  ")}`
+  )
+  const trailers = [
+    ...(focus.startsWith("@") ? [`Backlog-Item: ${focus.slice(1).split(/[\\/]/).pop()}`] : []),
+    `Cuggino-Session: ${sessionId}`
+  ]
+  return [title, ...(done.length > 0 ? [done.join("\n")] : []), trailers.join("\n")].join("\n\n")
+}
+
+/**
+ * Run git and return its trimmed output, failing with the output on a non-zero exit code
+ */
+const runGit = (
+  args: ReadonlyArray<string>,
+  cwd: string
+): Effect.Effect<string, Error, ChildProcessSpawner.ChildProcessSpawner> =>
+  Effect.scoped(
+    Effect.gen(function*() {
+      const handle = yield* ChildProcess.spawn(ChildProcess.make("git", args, { cwd }))
+      const output = (yield* handle.all.pipe(Stream.decodeText, Stream.mkString)).trim()
+      const exitCode = yield* handle.exitCode
+      if (exitCode !== 0) {
+        return yield* Effect.fail(new Error(`git ${args[0]} exited with code ${exitCode}${output !== "" ? `: ${output}` : ""}`))
+      }
+      return output
+    })
+  ).pipe(
+    Effect.mapError((cause) => cause instanceof Error ? cause : new Error(String(cause)))
+  )
+
+/**
+ * Squash the commits since `baseCommit` into one commit with the message.
+ * Returns null if there is nothing to squash. Refuses when changes are staged, since they would be squashed too.
+ * If the commit fails, the branch is restored to its commits. Never fails the outer effect.
+ */
+const performSquashCommit = (
+  message: string,
+  baseCommit: string,
+  cwd: string,
+  iteration: number
+): Effect.Effect<CommitsSquashed | CommitFailed | null, never, ChildProcessSpawner.ChildProcessSpawner> =>
+  Effect.gen(function*() {
+    const count = Number(yield* runGit(["rev-list", "--count", `${baseCommit}..HEAD`], cwd))
+    if (count === 0) {
+      return null
+    }
+
+    const staged = yield* runGit(["diff", "--cached", "--quiet"], cwd).pipe(
+      Effect.as(false),
+      Effect.catch(() => Effect.succeed(true))
+    )
+    if (staged) {
+      return new CommitFailed({ iteration, message: "Not squashing: the index has staged changes that are not part of the loop's commits" })
+    }
+
+    // Keep the tree of HEAD, staged, on top of the base commit; put the commits back if the commit fails
+    yield* runGit(["reset", "--soft", baseCommit], cwd)
+    yield* runGit(["commit", "-m", message], cwd).pipe(
+      Effect.catch((error) =>
+        runGit(["reset", "--soft", "ORIG_HEAD"], cwd).pipe(
+          Effect.ignore,
+          Effect.andThen(Effect.fail(error))
+        )
+      )
+    )
+
+    const hash = yield* runGit(["rev-parse", "--short", "HEAD"], cwd)
+    return new CommitsSquashed({ iteration, commitHash: hash, commits: count, message })
+  }).pipe(
+    Effect.catch((error) =>
+      Effect.succeed(new CommitFailed({ iteration, message: error.message }))
+    )
+  )
+
 /**
  * Run git push to the specified remote/branch. Never fails the outer effect.
  */
@@ -220,44 +435,261 @@ export const LoopServiceLayer = Layer.effect(
   LoopService,
   Effect.gen(function*() {
     const agent = yield* LlmAgent
+    const agentMap = yield* AgentLayerMap
     const storage = yield* StorageService
+    const notification = yield* NotificationService
+    const fileSystem = yield* FileSystem.FileSystem
+    const pathService = yield* Path.Path
+
+    const recorder = yield* Effect.serviceOption(AgentRecorder)
+
+    // Phase agents are built in the run's scope and kept for the whole run
+    const resolveAgent = (phase: PhaseAgentConfig | undefined) =>
+      resolvePhaseAgent(phase, agent, recorder).pipe(Effect.provideService(AgentLayerMap, agentMap))
 
     return {
       run: (opts) =>
         Stream.callback<LoopEvent, LoopError | LlmSessionError | SessionError | StorageError, ChildProcessSpawner.ChildProcessSpawner | SessionServiceMap | StorageService>((queue) => {
+          // Running usage totals for the current iteration and the whole loop
+          const usage: { iteration: UsageTotals | null; loop: UsageTotals | null } = { iteration: null, loop: null }
+          // Budgets count from the start of this run (a resumed loop starts over)
+          const startedAt = Date.now()
+          let currentIteration = opts.resume?.iteration ?? 1
+          // The loop's git worktree, if it is isolated (a resumed loop keeps its own)
+          let worktree: LoopWorktree | null = opts.resume?.worktreePath !== undefined && opts.resume.branch !== undefined
+            ? { path: opts.resume.worktreePath, branch: opts.resume.branch }
+            : null
+          // HEAD before the loop's first commit, when auto-commit is on (a resumed loop keeps its own)
+          let initialCommitHash: string | null = opts.resume?.initialCommitHash ?? null
+          // (Short) hashes of the commits the loop made, the only ones the max-iterations policy may drop
+          const loopCommits: Array<string> = [...(opts.resume?.loopCommits ?? [])]
+          // Whether a failed commit gate left the last task's changes uncommitted (a resumed loop keeps its own)
+          let uncommittedTask = opts.resume?.uncommittedTask === true
+
           /**
            * Helper to run a phase stream, emit events to the queue, and return the terminal marker.
+           * When the phase keeps failing on its own agent, it is re-run on the next agent of `fallbacks`
+           * (with the provider's default model).
            * Captures `queue` from the Stream.callback closure.
            */
           const runPhaseAndEmit = <TMarker, TEnd extends Schema.Top & { readonly DecodingServices: never }>(
-            phaseStream: Stream.Stream<LlmAgentEvent | TMarker, LlmSessionError>,
+            spawnPhase: (agent: LlmAgentShape, spawn: PhaseSpawn) => Stream.Stream<LlmAgentEvent | TMarker, LlmSessionError>,
+            primary: { readonly agent: LlmAgentShape; readonly model: string | undefined },
+            fallbacks: ReadonlyArray<{ readonly name: AgentName; readonly agent: LlmAgentShape }>,
             phase: "planning" | "implementing" | "reviewing",
-            terminalSchema: TEnd
-          ): Effect.Effect<Schema.Schema.Type<TEnd>, LoopError | LlmSessionError | SessionError, SessionService> =>
+            iteration: number,
+            terminalSchema: TEnd,
+            terminalMarkers: ReadonlyArray<string>
+          ): Effect.Effect<Schema.Schema.Type<TEnd>, LoopError | LlmSessionError | SessionError, SessionService | ChildProcessSpawner.ChildProcessSpawner> =>
             Effect.gen(function*() {
               const session = yield* SessionService
-              const last = yield* phaseStream.pipe(
-                Stream.takeUntil(Schema.is(terminalSchema)),
-                Stream.tap((event) =>
-                  Effect.gen(function*() {
-                    yield* Queue.offer(queue, event as LoopEvent)
-                    if (isLlmMarkerEvent(event)) {
-                      yield* session.appendMarker(event)
+              const isTerminal = Schema.is(terminalSchema)
+              const stallRetries = opts.watchdog?.retries ?? 1
+              const maxAttempts = opts.retry?.maxAttempts ?? 5
+              const state: {
+                terminal: Option.Option<TMarker>
+                question: Option.Option<NeedsHuman>
+                last: Option.Option<LlmAgentEvent | TMarker>
+                usage: UsageTotals | null
+              } = { terminal: Option.none(), question: Option.none(), last: Option.none(), usage: null }
+
+              // Number of fallback agents used so far (0 = the phase's own agent)
+              let fallbackIndex = 0
+              let stalls = 0
+              let failures = 0
+              const maxNudges = opts.markerNudges ?? 2
+              let nudges = 0
+              let sessionId = Uuid.v7()
+              let followUp: string | undefined = undefined
+              // Markers of the current agent session, appended to the session file (and their actions run)
+              // once its result is kept: a re-run in a new session would produce them again
+              let pending: Array<LlmMarkerEvent> = []
+              // Occurrences of each marker in the current attempt, the most kept for the current session and the
+              // most shown so far: a resumed or re-run attempt replays the markers of an earlier one, which are
+              // kept and shown once, while a marker repeated within one attempt is kept and shown every time
+              const attemptCounts = new Map<string, number>()
+              const pendingCounts = new Map<string, number>()
+              const emittedCounts = new Map<string, number>()
+
+              // Move on to the next fallback agent; returns false when there is none left
+              const fallBack = (message: string) =>
+                Effect.gen(function*() {
+                  if (fallbackIndex >= fallbacks.length) return false
+                  const next = fallbacks[fallbackIndex]
+                  fallbackIndex++
+                  stalls = 0
+                  failures = 0
+                  nudges = 0
+                  followUp = undefined
+                  yield* Queue.offer(queue, new AgentFallback({ iteration, phase, agent: next.name, message }))
+                  return true
+                })
+
+              while (true) {
+                yield* session.trackAgentSession(sessionId)
+                attemptCounts.clear()
+                const phaseStream = fallbackIndex === 0
+                  ? spawnPhase(primary.agent, { model: primary.model, sessionId, followUp })
+                  : spawnPhase(fallbacks[fallbackIndex - 1].agent, { model: undefined, sessionId, followUp })
+                const interrupted = yield* withWatchdog(phaseStream, opts.watchdog ?? {}).pipe(
+                  // Stop at the terminal marker (or a question), but keep reading trailing
+                  // heartbeats and usage reports (sent by the agent right before it exits)
+                  Stream.takeWhile((event) => {
+                    if (Option.isSome(state.terminal) || Option.isSome(state.question)) return isTrailingEvent(event)
+                    state.last = Option.some(event)
+                    if (isTerminal(event)) state.terminal = Option.some(event as TMarker)
+                    if (event instanceof NeedsHuman) state.question = Option.some(event)
+                    return true
+                  }),
+                  Stream.runForEach((event) =>
+                    Effect.gen(function*() {
+                      if (isLlmMarkerEvent(event)) {
+                        const key = JSON.stringify(event)
+                        const occurrence = (attemptCounts.get(key) ?? 0) + 1
+                        attemptCounts.set(key, occurrence)
+                        if (occurrence > (pendingCounts.get(key) ?? 0)) {
+                          pendingCounts.set(key, occurrence)
+                          pending.push(event)
+                        }
+                        if (occurrence <= (emittedCounts.get(key) ?? 0)) return
+                        emittedCounts.set(key, occurrence)
+                      }
+                      yield* Queue.offer(queue, event as LoopEvent)
+                      if (isLlmAgentEvent(event) && event._tag === "UsageEvent") {
+                        state.usage = addUsage(state.usage, event)
+                      }
+                    })
+                  ),
+                  Effect.as(Option.none<AgentStallError | LlmSessionError>()),
+                  Effect.catchTag("AgentStallError", (error) => Effect.succeed(Option.some(error))),
+                  Effect.catchTag("LlmSessionError", (error) => Effect.succeed(Option.some(error)))
+                )
+
+                // The agent asked a question — wait for the answer, then resume its session with it
+                if (Option.isSome(state.question)) {
+                  const question = state.question.value.content
+                  state.question = Option.none()
+                  state.last = Option.none()
+                  const answer = yield* askHuman(
+                    question,
+                    opts.questions,
+                    storage,
+                    (channel) => Queue.offer(queue, new QuestionAsked({ iteration, phase, question, channel }))
+                  ).pipe(
+                    Effect.mapError((error) => new LoopError({ phase, detail: error.message, cause: error }))
+                  )
+                  yield* Queue.offer(queue, new QuestionAnswered({ iteration, phase, answer }))
+                  followUp = humanAnswerPrompt(answer)
+                  continue
+                }
+
+                if (Option.isNone(interrupted)) {
+                  // Ended without a terminal marker — resume the session and ask for one
+                  if (Option.isNone(state.terminal) && nudges < maxNudges) {
+                    nudges++
+                    yield* Queue.offer(queue, new MarkerNudge({ iteration, phase, attempt: nudges, maxAttempts: maxNudges }))
+                    followUp = markerNudgePrompt(terminalMarkers)
+                    continue
+                  }
+                  break
+                }
+
+                // A failure after the terminal marker only cut off trailing events — keep the marker
+                if (Option.isSome(state.terminal)) break
+
+                const error = interrupted.value
+                if (error._tag === "LlmSessionError" && error.sessionNotFound === true && followUp !== undefined) {
+                  // The agent session to continue is unknown to its provider: run the phase again from its start
+                  followUp = undefined
+                  yield* Queue.offer(queue, new AgentRetrying({
+                    iteration,
+                    phase,
+                    attempt: failures + 1,
+                    maxAttempts,
+                    delaySeconds: 0,
+                    message: error.message
+                  }))
+                } else if (error._tag === "AgentStallError") {
+                  stalls++
+                  const next = stalls <= stallRetries ? "retry" : fallbackIndex < fallbacks.length ? "fallback" : "give-up"
+                  yield* Queue.offer(queue, new AgentStalled({
+                    iteration,
+                    phase,
+                    reason: error.reason,
+                    seconds: error.seconds,
+                    attempt: stalls,
+                    next
+                  }))
+                  if (next !== "retry" && !(yield* fallBack(error.message))) {
+                    return yield* new LoopError({ phase, detail: error.message, cause: error })
+                  }
+                } else if (error.transient !== true || failures + 1 >= maxAttempts) {
+                  // Fatal error, or transient error with no attempts left
+                  if (!(yield* fallBack(error.message))) {
+                    return yield* Effect.fail(error)
+                  }
+                } else {
+                  const delayMs = retryDelayMs(error, failures + 1, opts.retry)
+                  if (error.resetAt !== undefined && delayMs > (opts.retry?.maxResetWait ?? 3600) * 1000) {
+                    // The rate limit lifts too late to wait for it: the error is fatal
+                    const detail = `${error.message} (the rate limit resets in ${Math.ceil(delayMs / 60000)} minutes, beyond retry.maxResetWait)`
+                    if (!(yield* fallBack(detail))) {
+                      return yield* new LoopError({ phase, detail, cause: error })
                     }
-                  })
-                ),
-                Stream.runLast
-              )
+                  } else {
+                    failures++
+                    yield* Queue.offer(queue, new AgentRetrying({
+                      iteration,
+                      phase,
+                      attempt: failures + 1,
+                      maxAttempts,
+                      delaySeconds: Math.ceil(delayMs / 1000),
+                      message: error.message
+                    }))
+                    yield* Effect.sleep(Duration.millis(delayMs))
+                  }
+                }
+                state.last = Option.none()
+                // Re-run in a new session, unless a follow-up was interrupted (resume it again)
+                if (followUp === undefined) {
+                  sessionId = Uuid.v7()
+                  pending = []
+                  pendingCounts.clear()
+                }
+              }
+
+              // Keep the markers of the session whose result is used
+              for (const marker of pending) {
+                yield* session.appendMarker(marker)
+                const customAction = marker instanceof CustomMarker ? opts.customMarkers?.[marker.tag]?.action : undefined
+                if (marker instanceof CustomMarker && customAction !== undefined) {
+                  const failed = yield* runCustomMarkerAction(marker, customAction, opts.cwd, iteration, notification, fileSystem, pathService)
+                  if (failed !== null) {
+                    yield* Queue.offer(queue, failed)
+                  }
+                }
+              }
 
-              if (Option.isNone(last)) {
+              if (state.usage !== null) {
+                yield* Queue.offer(queue, new PhaseUsage({ iteration, phase, usage: state.usage }))
+                usage.iteration = addUsage(usage.iteration, state.usage)
+                usage.loop = addUsage(usage.loop, state.usage)
+              }
+
+              if (Option.isSome(state.terminal)) {
+                return state.terminal.value
+              }
+
+              if (Option.isNone(state.last)) {
                 return yield* new LoopError({
                   phase,
                   detail: `Agent stream ended without emitting any marker`
                 })
               }
 
-              if (!isLlmMarkerEvent(last.value)) {
-                const lastValue = last.value as Record<string, unknown>
+              const last = state.last.value
+              if (!isLlmMarkerEvent(last)) {
+                const lastValue = last as Record<string, unknown>
                 const tag = "_tag" in lastValue ? String(lastValue._tag) : "unknown"
                 return yield* new LoopError({
                   phase,
@@ -265,51 +697,311 @@ export const LoopServiceLayer = Layer.effect(
                 })
               }
 
-              if (!Schema.is(terminalSchema)(last.value)) {
-                return yield* new LoopError({
-                  phase,
-                  detail: `Non-terminal marker received from ${phase} agent (got: ${last.value._tag})`
-                })
+              return yield* new LoopError({
+                phase,
+                detail: `Non-terminal marker received from ${phase} agent (got: ${last._tag})`
+              })
+            })
+
+          /**
+           * Emit the usage totals of the iteration (if any agent reported usage) and reset them.
+           */
+          const flushIterationUsage = (iteration: number) =>
+            Effect.gen(function*() {
+              if (usage.iteration !== null) {
+                yield* Queue.offer(queue, new IterationUsage({ iteration, usage: usage.iteration }))
+                usage.iteration = null
+              }
+            })
+
+          /**
+           * Merge the worktree's branch on approval (as configured) or keep it, then remove the worktree.
+           * Never fails: a failed merge keeps the branch.
+           */
+          const closeWorktree = (iteration: number, terminal: LoopTerminalEvent) =>
+            Effect.gen(function*() {
+              if (worktree === null) return
+              const { path: worktreePath, branch } = worktree
+              worktree = null
+              // Removing the worktree discards uncommitted changes: keep the last task's on the branch
+              if (uncommittedTask) {
+                uncommittedTask = false
+                const wipCommit = yield* performAutoCommit("[wip] Uncommitted changes of the last task", worktreePath, iteration, opts.specsPath)
+                if (wipCommit !== null) {
+                  yield* Queue.offer(queue, wipCommit)
+                  if (wipCommit._tag === "CommitPerformed") loopCommits.push(wipCommit.commitHash)
+                }
+              }
+              // The max-iterations policy decides about the branch of a failed loop
+              if (terminal._tag === "LoopMaxIterations" && (opts.onMaxIterations ?? "keep") !== "keep") {
+                yield* removeWorktree(opts.cwd, worktreePath).pipe(Effect.ignore)
+                yield* setAsideFailedWork(iteration, branch)
+                return
               }
+              const onApproval = opts.worktree?.onApproval ?? "branch"
+              const outcome = terminal._tag !== "LoopApproved" || onApproval === "branch"
+                ? new WorktreeBranchKept({
+                    iteration,
+                    branch,
+                    reason: terminal._tag === "LoopApproved" ? "approved, left for review" : "not approved"
+                  })
+                : yield* (opts.beforeMerge ?? Effect.void).pipe(
+                    Effect.andThen(mergeWorktreeBranch(opts.cwd, branch, onApproval)),
+                    Effect.map((commitHash) => new WorktreeMerged({ iteration, branch, mode: onApproval, commitHash })),
+                    Effect.catch((error) => Effect.succeed(new WorktreeBranchKept({ iteration, branch, reason: error.message })))
+                  )
+              yield* removeWorktree(opts.cwd, worktreePath).pipe(Effect.ignore)
+              yield* Queue.offer(queue, outcome)
+              if (outcome._tag === "WorktreeMerged") {
+                // The branch can only be deleted once no worktree has it checked out
+                yield* deleteWorktreeBranch(opts.cwd, branch).pipe(Effect.ignore)
+                if (opts.push && opts.push.trim() !== "") {
+                  yield* Queue.offer(queue, yield* performAutoPush(opts.push, opts.cwd, iteration, outcome.commitHash))
+                }
+              }
+            })
 
-              return last.value as TMarker
+          /**
+           * Apply the max-iterations policy to the loop's commits: drop them (`revert`) or move them
+           * to a `failed/` branch (`branch`), resetting the branch they were on to the initial commit.
+           * `isolatedBranch` is the branch of the loop's (removed) worktree. Never fails: on error the commits stay.
+           */
+          const setAsideFailedWork = (iteration: number, isolatedBranch: string | null) =>
+            Effect.gen(function*() {
+              const policy = opts.onMaxIterations ?? "keep"
+              const initial = initialCommitHash
+              if (policy === "keep" || initial === null) return
+              const failedBranch = worktreeBranch(opts.focus, key.sessionId, pathService, `${opts.worktree?.branchPrefix ?? "cuggino/"}failed/`)
+              const setAside = Effect.gen(function*() {
+                if (isolatedBranch !== null) {
+                  return yield* policy === "branch"
+                    ? renameBranch(opts.cwd, isolatedBranch, failedBranch)
+                    : deleteWorktreeBranch(opts.cwd, isolatedBranch, true)
+                }
+                // Nothing was committed, nothing to set aside
+                const commits = yield* commitsSince(opts.cwd, initial)
+                if (commits.length === 0) return false
+                // The branch is the user's checkout: never drop commits the loop did not make
+                const foreign = commits.filter((commit) => !loopCommits.some((hash) => commit.startsWith(hash)))
+                if (foreign.length > 0) {
+                  return yield* new WorktreeError({
+                    operation: "reset",
+                    detail: `${foreign.length} commit(s) since ${initial.slice(0, 7)} were not made by the loop`
+                  })
+                }
+                if (policy === "branch") yield* createBranch(opts.cwd, failedBranch)
+                yield* resetToCommit(opts.cwd, initial)
+              })
+              const outcome = yield* setAside.pipe(
+                Effect.map((changed) =>
+                  changed === false
+                    ? null
+                    : policy === "branch"
+                    ? new FailedWorkBranched({ iteration, branch: failedBranch })
+                    : new FailedWorkReverted({ iteration, commitHash: initial.slice(0, 7) })
+                ),
+                Effect.catch((error) => Effect.succeed(new FailedWorkKept({ iteration, reason: error.message })))
+              )
+              if (outcome !== null) {
+                yield* Queue.offer(queue, outcome)
+              }
             })
 
-          const key = new SessionKey({ cwd: opts.cwd, sessionId: Uuid.v7() })
+          /**
+           * With the `squash-on-approve` strategy, squash the loop's commits into one (in the worktree, if any)
+           * and push it when `push` is set outside a worktree (a worktree branch is pushed once merged)
+           */
+          const squashOnApproval = (iteration: number) =>
+            Effect.gen(function*() {
+              const initial = initialCommitHash
+              if (opts.commitStrategy !== "squash-on-approve" || initial === null) return
+              const session = yield* SessionService
+              const sessionContent = yield* session.readSession().pipe(Effect.catch(() => Effect.succeed("")))
+              const message = squashCommitMessage(sessionContent, opts.focus, key.sessionId)
+              const result = yield* performSquashCommit(message, initial, worktree?.path ?? opts.cwd, iteration)
+              if (result === null) return
+              yield* Queue.offer(queue, result)
+              if (result._tag === "CommitsSquashed" && worktree === null && opts.push && opts.push.trim() !== "") {
+                yield* Queue.offer(queue, yield* performAutoPush(opts.push, opts.cwd, iteration, result.commitHash))
+              }
+            })
+
+          /**
+           * Emit the terminal event followed by the loop usage totals, then end the stream.
+           * The finished loop's checkpoint is removed, so its session files are cleaned up.
+           * A loop that hit max iterations first has the max-iterations policy applied and its plan and review archived.
+           */
+          const finish = (iteration: number, terminal: LoopTerminalEvent) =>
+            Effect.gen(function*() {
+              const session = yield* SessionService
+              const isolated = worktree !== null
+              if (terminal._tag === "LoopApproved") {
+                yield* squashOnApproval(iteration)
+              }
+              yield* closeWorktree(iteration, terminal)
+              if (terminal._tag === "LoopMaxIterations") {
+                if (!isolated) yield* setAsideFailedWork(iteration, null)
+                if (opts.failedDir !== undefined) yield* session.archive(opts.failedDir)
+              }
+              yield* session.clearCheckpoint()
+              yield* flushIterationUsage(iteration)
+              yield* Queue.offer(queue, terminal)
+              if (usage.loop !== null) {
+                yield* Queue.offer(queue, new LoopUsage({ iterations: iteration, usage: usage.loop }))
+              }
+              yield* Queue.end(queue)
+            })
+
+          /**
+           * End the loop when its budget is exhausted. Returns true when the loop was ended.
+           */
+          const stopOverBudget = (iteration: number) =>
+            Effect.gen(function*() {
+              const overrun = budgetOverrun(opts.budget, budgetSpent(startedAt, usage.loop))
+              if (Option.isNone(overrun)) return false
+              yield* finish(iteration, new LoopBudgetExceeded({ iteration, ...overrun.value }))
+              return true
+            })
+
+          /**
+           * Prompt section telling a phase agent about its custom markers
+           */
+          const customMarkersSection = (phase: LoopPhase) =>
+            customMarkersPrompt(customMarkersForPhase(opts.customMarkers, phase).map(([tag, marker]) => [tag, marker.description]))
+
+          // Marker configs with the custom markers of each phase (the built-in markers take precedence)
+          const planningMarkers: MarkerExtractorConfig<Record<string, SpecIssue | PlanComplete | NeedsHuman | CustomMarker>> = {
+            ...customMarkerConfig(opts.customMarkers, "planning"),
+            ...planningMarkerConfig
+          }
+          const implementingMarkers: MarkerExtractorConfig<Record<string, Note | SpecIssue | Done | NoMoreWork | NeedsHuman | CustomMarker>> = {
+            ...customMarkerConfig(opts.customMarkers, "implementing"),
+            ...implementingMarkerConfig
+          }
+          const reviewingMarkers: MarkerExtractorConfig<Record<string, SpecIssue | Approved | RequestChanges | NeedsHuman | CustomMarker>> = {
+            ...customMarkerConfig(opts.customMarkers, "reviewing"),
+            ...reviewingMarkerConfig
+          }
+
+          const key = new SessionKey({ cwd: opts.cwd, sessionId: opts.resume?.sessionId ?? Uuid.v7() })
 
           return Effect.gen(function*() {
             const session = yield* SessionService
             const maxIterations = opts.maxIterations ?? 10
 
+            // Resolve the agent for each phase (falls back to the --agent provider)
+            const planningAgent = yield* resolveAgent(opts.phases?.planning)
+            const implementingAgent = yield* resolveAgent(opts.phases?.implementing)
+            const reviewingAgent = yield* resolveAgent(opts.phases?.reviewing)
+            const fallbackAgents = yield* Effect.forEach(opts.fallbackAgents ?? [], (name) =>
+              resolveAgent({ agent: name }).pipe(Effect.map((agent) => ({ name, agent })))
+            )
+
             // Get paths
             const sessionPath = yield* session.getSessionPath()
             const reviewPath = yield* session.getReviewPath()
 
+            // Isolate the loop in a worktree on its own branch; agents, commands and commits run there
+            if (opts.worktree !== undefined && worktree === null) {
+              const branch = worktreeBranch(opts.focus, key.sessionId, pathService, opts.worktree.branchPrefix)
+              worktree = yield* createWorktree(opts.cwd, storage.worktreesDir, key.sessionId, branch, fileSystem, pathService).pipe(
+                Effect.mapError((error) => new LoopError({ phase: "planning", detail: error.message, cause: error }))
+              )
+              yield* Queue.offer(queue, new WorktreeCreated({ path: worktree.path, branch }))
+            }
+            const cwd = worktree?.path ?? opts.cwd
+            // Work done in a worktree only survives as commits on its branch
+            const commit = opts.commit === true || worktree !== null
+            const commitTasks = commit && (worktree !== null || opts.commitStrategy !== "none")
+            // Squashed commits are pushed once, on approval
+            const pushTasks = worktree === null && opts.commitStrategy !== "squash-on-approve"
+
             // Capture initial commit hash if --commit is enabled
-            let initialCommitHash: string | null = null
-            if (opts.commit) {
+            if (commit && opts.resume === undefined) {
               initialCommitHash = yield* Effect.scoped(
                 Effect.gen(function*() {
-                  const cmd = ChildProcess.make({ cwd: opts.cwd, shell: true })`git rev-parse HEAD`
+                  const cmd = ChildProcess.make({ cwd, shell: true })`git rev-parse HEAD`
                   return (yield* ChildProcess.string(cmd)).trim()
                 })
               ).pipe(Effect.catch(() => Effect.succeed(null)))
             }
 
             // State for review file path
-            let reviewFilePath: Option.Option<string> = Option.none()
-            let shouldPlan = true
+            let reviewFilePath: Option.Option<string> = Option.fromUndefinedOr(opts.resume?.reviewPath)
+            let shouldPlan = opts.resume === undefined || opts.resume.phase === "planning"
+            let shouldImplement = opts.resume?.phase !== "reviewing"
+            const setupSteps = commandSteps(opts.setupCommand)
+            const checkSteps = commandSteps(opts.checkCommand)
+
+            /**
+             * Run a setup or check step in its working directory (relative to the loop's), with its timeout
+             */
+            const runStep = (step: ResolvedStep, outputPath: string) =>
+              runShellCommandToFile(step.command, step.cwd !== undefined ? pathService.resolve(cwd, step.cwd) : cwd, outputPath, fileSystem, step.timeout)
+
+            /**
+             * Run the check steps in order, each with its own events and output file,
+             * and summarize the diagnostics in their output
+             */
+            const runChecks = (iteration: number) =>
+              Effect.forEach(checkSteps, (step) =>
+                Effect.gen(function*() {
+                  const stepInfo = step.name !== undefined ? { step: step.name, required: step.required } : {}
+                  yield* Queue.offer(queue, new CheckCommandStarting({ iteration, ...(step.name !== undefined ? { step: step.name } : {}) }))
+                  const outputPath = yield* session.getCheckOutputPath(step.fileId)
+                  const exitCode = yield* runStep(step, outputPath)
+                  const { errors, warnings, summary } = yield* readCheckDiagnostics(outputPath, opts.diagnosticFormats, fileSystem)
+                  yield* Queue.offer(queue, new CheckCommandOutput({ iteration, ...stepInfo, filePath: outputPath, exitCode, errors, warnings }))
+                  const result: CheckResult = {
+                    ...(step.name !== undefined ? { name: step.name } : {}),
+                    outputPath,
+                    exitCode,
+                    required: step.required,
+                    diagnostics: summary
+                  }
+                  return result
+                }))
+
+            // Output of checks that blocked the previous task's commit, for the next implementing iteration
+            let blockingChecks: ReadonlyArray<CheckResult> | null = null
 
-            for (let iteration = 1; iteration <= maxIterations; iteration++) {
+            /**
+             * Save the loop state, naming the next phase to run
+             */
+            const saveCheckpoint = (iteration: number, phase: LoopPhase) =>
+              session.saveCheckpoint({
+                focus: opts.focus,
+                iteration,
+                phase,
+                ...(Option.isSome(reviewFilePath) ? { reviewPath: reviewFilePath.value } : {}),
+                ...(initialCommitHash !== null ? { initialCommitHash } : {}),
+                ...(loopCommits.length > 0 ? { loopCommits } : {}),
+                ...(uncommittedTask ? { uncommittedTask } : {}),
+                ...(worktree !== null ? { worktreePath: worktree.path, branch: worktree.branch } : {})
+              })
+
+            if (opts.resume !== undefined) {
+              yield* Queue.offer(queue, new LoopResumed({
+                sessionId: key.sessionId,
+                iteration: opts.resume.iteration,
+                phase: opts.resume.phase
+              }))
+            } else {
+              yield* saveCheckpoint(1, "planning")
+            }
+
+            for (let iteration = opts.resume?.iteration ?? 1; iteration <= maxIterations; iteration++) {
+              currentIteration = iteration
               yield* Queue.offer(queue, new IterationStart({ iteration, maxIterations }))
 
               // Planning phase
               if(shouldPlan){
                 shouldPlan = false
+              if (yield* stopOverBudget(iteration)) return
               yield* Queue.offer(queue, new PlanningStart({ iteration }))
               const tempPlanPath = yield* session.getTempPlanPath()
 
-              const planningSystemPrompt = Option.isSome(reviewFilePath)
+              const planningSystemPrompt = (Option.isSome(reviewFilePath)
                 ? replanningPrompt({
                     specsPath: opts.specsPath,
                     cugginoPath: storage.rootDir,
@@ -324,174 +1016,242 @@ export const LoopServiceLayer = Layer.effect(
                     focus: opts.focus,
                     planPath: tempPlanPath
                   })
+              ) + customMarkersSection("planning")
 
-              const planEvents = agent.spawn({
-                prompt: `Please create an implementation plan for: ${opts.focus}. Write the plan to ${tempPlanPath}`,
-                systemPrompt: planningSystemPrompt,
-                cwd: opts.cwd,
-                dangerouslySkipPermissions: true
-              })
-
-              const planMarkerStream = extractMarkers(planEvents, planningMarkerConfig)
+              const spawnPlanning = (agent: LlmAgentShape, spawn: PhaseSpawn) =>
+                extractMarkers(agent.spawn({
+                  prompt: spawn.followUp ?? `Please create an implementation plan for: ${opts.focus}. Write the plan to ${tempPlanPath}`,
+                  systemPrompt: planningSystemPrompt,
+                  model: spawn.model,
+                  sessionId: spawn.sessionId,
+                  resume: spawn.followUp !== undefined,
+                  role: "planning",
+                  cwd,
+                  dangerouslySkipPermissions: true
+                }), planningMarkers)
 
               const planTerminal = yield* runPhaseAndEmit(
-                planMarkerStream,
+                spawnPlanning,
+                { agent: planningAgent, model: opts.phases?.planning?.model },
+                fallbackAgents,
                 "planning",
-                Schema.Union([SpecIssue, PlanComplete])
+                iteration,
+                Schema.Union([SpecIssue, PlanComplete]),
+                ["PLAN_COMPLETE", "SPEC_ISSUE"]
               )
 
               if (planTerminal._tag === "SpecIssue") {
                 const specContent = (planTerminal as SpecIssue).content
                 const filename = yield* storage.writeSpecIssue(specContent)
-                yield* Queue.offer(queue, new LoopSpecIssue({ iteration, content: specContent, filename }))
-                yield* Queue.end(queue)
+                yield* finish(iteration, new LoopSpecIssue({ iteration, content: specContent, filename }))
                 return
               }
 
               // Commit temp plan
               yield* session.commitTempPlan()
 
-              // Setup command (after planning, before implementation)
-              if (hasCommand(opts.setupCommand)) {
-                yield* Queue.offer(queue, new SetupCommandStarting({ iteration }))
-                const setupOutputPath = yield* session.getSetupOutputPath()
-                const setupExitCode = yield* runShellCommandToFile(opts.setupCommand, opts.cwd, setupOutputPath)
-                yield* Queue.offer(queue, new SetupCommandOutput({ iteration, filePath: setupOutputPath, exitCode: setupExitCode }))
-                if (setupExitCode !== 0) {
+              // Setup steps (after planning, before implementation); a failed required step stops the loop
+              for (const step of setupSteps) {
+                yield* Queue.offer(queue, new SetupCommandStarting({ iteration, ...(step.name !== undefined ? { step: step.name } : {}) }))
+                const setupOutputPath = yield* session.getSetupOutputPath(step.fileId)
+                const setupExitCode = yield* runStep(step, setupOutputPath)
+                yield* Queue.offer(queue, new SetupCommandOutput({
+                  iteration,
+                  ...(step.name !== undefined ? { step: step.name, required: step.required } : {}),
+                  filePath: setupOutputPath,
+                  exitCode: setupExitCode
+                }))
+                if (setupExitCode !== 0 && step.required) {
                   return yield* new LoopError({
                     phase: "planning",
-                    detail: `Setup command failed with exit code ${setupExitCode}`
+                    detail: step.name !== undefined
+                      ? `Setup step "${step.name}" failed with exit code ${setupExitCode}`
+                      : `Setup command failed with exit code ${setupExitCode}`
                   })
                 }
               }
+              yield* saveCheckpoint(iteration, "implementing")
             }
 
-              // Implementation phase
-              yield* Queue.offer(queue, new ImplementingStart({ iteration }))
+              // A loop resumed at the reviewing phase skips implementation once
+              let shouldReview = true
+              if (!shouldImplement) {
+                shouldImplement = true
+              } else {
+                // Implementation phase
+                if (yield* stopOverBudget(iteration)) return
+                yield* Queue.offer(queue, new ImplementingStart({ iteration }))
 
-              let checkOutputPath: string | undefined
-              let checkExitCode: number | undefined
-              if (hasCommand(opts.checkCommand)) {
-                yield* Queue.offer(queue, new CheckCommandStarting({ iteration }))
-                checkOutputPath = yield* session.getCheckOutputPath()
-                checkExitCode = yield* runShellCommandToFile(opts.checkCommand, opts.cwd, checkOutputPath)
-                yield* Queue.offer(queue, new CheckCommandOutput({ iteration, filePath: checkOutputPath, exitCode: checkExitCode }))
-              }
+                // Nothing changed since a check that blocked the previous task's commit ran
+                // (after a resume, the checks run again)
+                const previousTaskUncommitted = uncommittedTask
+                const checks = blockingChecks ?? (yield* runChecks(iteration))
+                blockingChecks = null
+                uncommittedTask = false
 
-              const implementingSystemPrompt = implementingPrompt({
-                specsPath: opts.specsPath,
-                cugginoPath: storage.rootDir,
-                planPath: sessionPath,
-                sessionPath,
-                checkOutputPath,
-                checkExitCode
-              })
+                const implementingSystemPrompt = implementingPrompt({
+                  specsPath: opts.specsPath,
+                  cugginoPath: storage.rootDir,
+                  planPath: sessionPath,
+                  sessionPath,
+                  checks,
+                  uncommittedTask: previousTaskUncommitted
+                }) + customMarkersSection("implementing")
 
-              const implEvents = agent.spawn({
-                prompt: `Please implement one task from the plan at ${sessionPath}`,
-                systemPrompt: implementingSystemPrompt,
-                cwd: opts.cwd,
-                dangerouslySkipPermissions: true
-              })
+                const spawnImplementing = (agent: LlmAgentShape, spawn: PhaseSpawn) =>
+                  extractMarkers(agent.spawn({
+                    prompt: spawn.followUp ?? `Please implement one task from the plan at ${sessionPath}`,
+                    systemPrompt: implementingSystemPrompt,
+                    model: spawn.model,
+                    sessionId: spawn.sessionId,
+                    resume: spawn.followUp !== undefined,
+                    role: "implementing",
+                    cwd,
+                    dangerouslySkipPermissions: true
+                  }), implementingMarkers)
 
-              const implMarkerStream = extractMarkers(implEvents, implementingMarkerConfig)
+                const implTerminal = yield* runPhaseAndEmit(
+                  spawnImplementing,
+                  { agent: implementingAgent, model: opts.phases?.implementing?.model },
+                  fallbackAgents,
+                  "implementing",
+                  iteration,
+                  Schema.Union([SpecIssue, Done, NoMoreWork]),
+                  ["DONE", "NO_MORE_WORK", "SPEC_ISSUE"]
+                )
 
-              const implTerminal = yield* runPhaseAndEmit(
-                implMarkerStream,
-                "implementing",
-                Schema.Union([SpecIssue, Done, NoMoreWork])
-              )
-
-              if (implTerminal._tag === "SpecIssue") {
-                const specContent = (implTerminal as SpecIssue).content
-                const filename = yield* storage.writeSpecIssue(specContent)
-                yield* Queue.offer(queue, new LoopSpecIssue({ iteration, content: specContent, filename }))
-                yield* Queue.end(queue)
-                return
-              }
+                if (implTerminal._tag === "SpecIssue") {
+                  const specContent = (implTerminal as SpecIssue).content
+                  const filename = yield* storage.writeSpecIssue(specContent)
+                  yield* finish(iteration, new LoopSpecIssue({ iteration, content: specContent, filename }))
+                  return
+                }
 
-              // Auto-commit if enabled (after Done — skip when NoMoreWork since nothing changed)
-              if (implTerminal._tag !== "NoMoreWork" && opts.commit) {
-                const commitMessage = (implTerminal as Done).content
-                const commitResult = yield* performAutoCommit(commitMessage, opts.cwd, iteration, opts.specsPath)
-                if (commitResult !== null) {
-                  yield* Queue.offer(queue, commitResult)
-                  // Auto-push if enabled and commit succeeded
-                  if (commitResult._tag === "CommitPerformed" && opts.push && opts.push.trim() !== "") {
-                    const pushResult = yield* performAutoPush(opts.push, opts.cwd, iteration, commitResult.commitHash)
-                    yield* Queue.offer(queue, pushResult)
+                // Auto-commit if enabled (after Done — skip when NoMoreWork since nothing changed)
+                if (implTerminal._tag !== "NoMoreWork" && commitTasks) {
+                  let commitMessage = (implTerminal as Done).content
+                  // Gate the commit on a passing check command
+                  if (opts.commitGate !== undefined && checkSteps.length > 0) {
+                    const gateChecks = yield* runChecks(iteration)
+                    // Only required steps gate the commit
+                    const failed = gateChecks.find((check) => check.required && check.exitCode !== 0)
+                    if (failed !== undefined && opts.commitGate === "skip") {
+                      blockingChecks = gateChecks
+                      uncommittedTask = true
+                      yield* Queue.offer(queue, new CommitSkipped({
+                        iteration,
+                        reason: `${failed.name !== undefined ? `check step "${failed.name}"` : "check command"} failed with exit code ${failed.exitCode}, changes left for the next iteration`
+                      }))
+                    } else if (failed !== undefined) {
+                      commitMessage = `[wip] ${commitMessage}`
+                    }
+                  }
+                  const commitResult = blockingChecks !== null
+                    ? null
+                    : yield* performAutoCommit(commitMessage, cwd, iteration, opts.specsPath)
+                  if (commitResult !== null) {
+                    yield* Queue.offer(queue, commitResult)
+                    if (commitResult._tag === "CommitPerformed") loopCommits.push(commitResult.commitHash)
+                    // Auto-push if enabled and commit succeeded (a worktree branch is pushed once merged)
+                    if (commitResult._tag === "CommitPerformed" && pushTasks && opts.push && opts.push.trim() !== "") {
+                      const pushResult = yield* performAutoPush(opts.push, opts.cwd, iteration, commitResult.commitHash)
+                      yield* Queue.offer(queue, pushResult)
+                    }
                   }
                 }
-              }
 
-              if(opts.slowMode || implTerminal._tag === "NoMoreWork"){
-              // Reviewing phase - clear stale review from previous iteration
-              yield* session.clearReview()
-              yield* Queue.offer(queue, new ReviewingStart({ iteration }))
-
-              let reviewCheckOutputPath: string | undefined
-              let reviewCheckExitCode: number | undefined
-              if (hasCommand(opts.checkCommand)) {
-                yield* Queue.offer(queue, new CheckCommandStarting({ iteration }))
-                reviewCheckOutputPath = yield* session.getCheckOutputPath()
-                reviewCheckExitCode = yield* runShellCommandToFile(opts.checkCommand, opts.cwd, reviewCheckOutputPath)
-                yield* Queue.offer(queue, new CheckCommandOutput({ iteration, filePath: reviewCheckOutputPath, exitCode: reviewCheckExitCode }))
+                shouldReview = opts.slowMode === true || implTerminal._tag === "NoMoreWork"
+                yield* shouldReview ? saveCheckpoint(iteration, "reviewing") : saveCheckpoint(iteration + 1, "implementing")
               }
 
-              const reviewingSystemPrompt = reviewingPrompt({
-                specsPath: opts.specsPath,
-                cugginoPath: storage.rootDir,
-                sessionPath,
-                reviewPath,
-                checkOutputPath: reviewCheckOutputPath,
-                checkExitCode: reviewCheckExitCode,
-                initialCommitHash: initialCommitHash ?? undefined
-              })
+              if (shouldReview) {
+                if (yield* stopOverBudget(iteration)) return
+                // Reviewing phase - clear stale review from previous iteration
+                yield* session.clearReview()
+                yield* Queue.offer(queue, new ReviewingStart({ iteration }))
 
-              const reviewEvents = agent.spawn({
-                prompt: `Please review the implementation against the specifications in ${opts.specsPath}`,
-                systemPrompt: reviewingSystemPrompt,
-                cwd: opts.cwd,
-                dangerouslySkipPermissions: true
-              })
+                const reviewChecks = yield* runChecks(iteration)
 
-              const reviewMarkerStream = extractMarkers(reviewEvents, reviewingMarkerConfig)
+                const reviewingSystemPrompt = reviewingPrompt({
+                  specsPath: opts.specsPath,
+                  cugginoPath: storage.rootDir,
+                  sessionPath,
+                  reviewPath,
+                  checks: reviewChecks,
+                  initialCommitHash: initialCommitHash ?? undefined
+                }) + customMarkersSection("reviewing")
 
-              const reviewTerminal = yield* runPhaseAndEmit(
-                reviewMarkerStream,
-                "reviewing",
-                Schema.Union([SpecIssue, Approved, RequestChanges])
-              )
+                const spawnReviewing = (agent: LlmAgentShape, spawn: PhaseSpawn) =>
+                  extractMarkers(agent.spawn({
+                    prompt: spawn.followUp ?? `Please review the implementation against the specifications in ${opts.specsPath}`,
+                    systemPrompt: reviewingSystemPrompt,
+                    model: spawn.model,
+                    sessionId: spawn.sessionId,
+                    resume: spawn.followUp !== undefined,
+                    role: "reviewing",
+                    cwd,
+                    dangerouslySkipPermissions: true
+                  }), reviewingMarkers)
 
-              switch (reviewTerminal._tag) {
-                case "SpecIssue": {
-                  const specContent = (reviewTerminal as SpecIssue).content
-                  const filename = yield* storage.writeSpecIssue(specContent)
-                  yield* Queue.offer(queue, new LoopSpecIssue({ iteration, content: specContent, filename }))
-                  yield* Queue.end(queue)
-                  return
-                }
-                case "Approved": {
-                  yield* Queue.offer(queue, new LoopApproved({ iteration }))
-                  yield* Queue.end(queue)
-                  return
-                }
-                case "RequestChanges": {
-                  const review = yield* session.readReview()
-                  if (Option.isNone(review)) {
-                    yield* session.writeReview((reviewTerminal as RequestChanges).content)
+                const reviewTerminal = yield* runPhaseAndEmit(
+                  spawnReviewing,
+                  { agent: reviewingAgent, model: opts.phases?.reviewing?.model },
+                  fallbackAgents,
+                  "reviewing",
+                  iteration,
+                  Schema.Union([SpecIssue, Approved, RequestChanges]),
+                  ["APPROVED", "REQUEST_CHANGES", "SPEC_ISSUE"]
+                )
+
+                switch (reviewTerminal._tag) {
+                  case "SpecIssue": {
+                    const specContent = (reviewTerminal as SpecIssue).content
+                    const filename = yield* storage.writeSpecIssue(specContent)
+                    yield* finish(iteration, new LoopSpecIssue({ iteration, content: specContent, filename }))
+                    return
+                  }
+                  case "Approved": {
+                    yield* finish(iteration, new LoopApproved({ iteration }))
+                    return
+                  }
+                  case "RequestChanges": {
+                    const review = yield* session.readReview()
+                    if (Option.isNone(review)) {
+                      yield* session.writeReview(requestChangesBody(reviewTerminal as RequestChanges))
+                    }
+                    reviewFilePath = Option.some(reviewPath)
+                    shouldPlan = true
+                    yield* saveCheckpoint(iteration + 1, "planning")
                   }
-                  reviewFilePath = Option.some(reviewPath)
-                  shouldPlan = true
                 }
               }
-            }
+
+              yield* flushIterationUsage(iteration)
             }
 
-            yield* Queue.offer(queue, new LoopMaxIterations({ iteration: maxIterations, maxIterations }))
-            yield* Queue.end(queue)
+            yield* finish(maxIterations, new LoopMaxIterations({ iteration: maxIterations, maxIterations }))
           }).pipe(
-            Effect.provide(SessionServiceMap.get(key))
+            // A phase still running when the duration budget runs out is interrupted
+            (body) => {
+              const maxDuration = opts.budget?.maxDuration
+              if (maxDuration === undefined) return body
+              return body.pipe(
+                Effect.timeoutOption(Duration.seconds(maxDuration)),
+                Effect.flatMap(Option.match({
+                  onSome: () => Effect.void,
+                  onNone: () =>
+                    finish(currentIteration, new LoopBudgetExceeded({
+                      iteration: currentIteration,
+                      limit: "duration",
+                      max: maxDuration,
+                      spent: Math.round(budgetSpent(startedAt, usage.loop).seconds)
+                    }))
+                }))
+              )
+            },
+            Effect.provide(SessionServiceMap.get(key)),
+            // Fail the event stream with the loop's error (the loop ends the stream itself when it finishes)
+            Queue.into(queue)
           )
         })
     }
@@ -1,4 +1,4 @@
-import { Effect, Stream, Layer, DateTime } from "effect"
+import { Effect, Stream, Layer, DateTime, FileSystem } from "effect"
 import { spawn } from "node:child_process"
 import * as fs from "node:fs"
 import * as path from "node:path"
@@ -8,27 +8,56 @@ import { LlmAgent, type LlmAgentInteractiveOptions, type LlmAgentSpawnOptions }
 import {
   SystemMessage,
   AgentMessage,
+  ReasoningMessage,
   ToolCall,
   ToolResult,
   LlmSessionError,
   PingEvent,
+  UsageEvent,
   type LlmAgentEvent
 } from "./LlmAgentEvent.js"
+import { classifySessionError } from "./classifySessionError.js"
+import { makeAgentSessions, resumedSessionId, type AgentSessions } from "./agentSessions.js"
+import { StorageService } from "./StorageService.js"
 
 /**
  * Raw OpenCode NDJSON event structure
  */
 interface RawOpenCodeEvent {
   type: string
+  sessionID?: string
   text?: string
   part?: {
     type?: string
+    text?: string
     tool?: string
     callID?: string
     state?: {
       status?: string
       input?: unknown
       output?: string
+      time?: {
+        start?: number
+        end?: number
+      }
+    }
+    tokens?: {
+      input?: number
+      output?: number
+      reasoning?: number
+      cache?: {
+        read?: number
+        write?: number
+      }
+    }
+    cost?: number
+  }
+  error?: {
+    name?: string
+    data?: {
+      message?: string
+      statusCode?: number
+      isRetryable?: boolean
     }
   }
 }
@@ -39,14 +68,30 @@ interface RawOpenCodeEvent {
 const isOpenCodeEvent = (value: unknown): value is RawOpenCodeEvent =>
   typeof value === "object" && value !== null && "type" in value
 
+/**
+ * Per-spawn parser state: the session ID carried by every event (stored for resume),
+ * and the tool calls already emitted (a tool part is reported again when it completes)
+ */
+interface OpenCodeParserState {
+  sessionId: string | undefined
+  toolCalls: Set<string>
+}
+
 /**
  * Convert raw OpenCode JSON to LlmAgentEvent(s).
  */
-const parseOpenCodeEvent = (json: unknown): Effect.Effect<Array<LlmAgentEvent>, LlmSessionError> => {
+const parseOpenCodeEvent = (
+  json: unknown,
+  session: OpenCodeParserState
+): Effect.Effect<Array<LlmAgentEvent>, LlmSessionError> => {
   if (!isOpenCodeEvent(json)) {
     return Effect.succeed([new PingEvent({ timestamp: DateTime.nowUnsafe() })])
   }
 
+  if (json.sessionID !== undefined) {
+    session.sessionId = json.sessionID
+  }
+
   switch (json.type) {
     case "step_start":
       return Effect.succeed([new SystemMessage({ text: "Session initialized" })])
@@ -54,17 +99,24 @@ const parseOpenCodeEvent = (json: unknown): Effect.Effect<Array<LlmAgentEvent>,
     case "tool_use": {
       const events: Array<LlmAgentEvent> = []
       const toolName = json.part?.tool ?? "unknown"
+      const callId = json.part?.callID ?? "unknown"
       const state = json.part?.state
       if (state) {
+        // The call is emitted once, when the part is first seen (running, or already finished)
+        if (!session.toolCalls.has(callId)) {
+          session.toolCalls.add(callId)
+          events.push(new ToolCall({ id: callId, name: toolName, input: state.input ?? null }))
+        }
         if (state.status === "completed" || state.status === "error") {
-          events.push(new ToolCall({ name: toolName, input: state.input ?? null }))
+          // OpenCode reports finished parts only, so time the tool from the part's own timestamps
+          const { start, end } = state.time ?? {}
           events.push(new ToolResult({
-            name: toolName,
+            callId,
+            toolName,
             output: state.output ?? "",
-            isError: state.status === "error"
+            isError: state.status === "error",
+            ...(start !== undefined && end !== undefined ? { durationMs: Math.max(0, end - start) } : {})
           }))
-        } else {
-          events.push(new ToolCall({ name: toolName, input: state.input ?? null }))
         }
       }
       return Effect.succeed(
@@ -80,9 +132,34 @@ const parseOpenCodeEvent = (json: unknown): Effect.Effect<Array<LlmAgentEvent>,
       }
       return Effect.succeed([new PingEvent({ timestamp: DateTime.nowUnsafe() })])
 
-    case "step_finish":
-      // Stream ends naturally
-      return Effect.succeed([])
+    case "reasoning": {
+      const text = json.part?.text ?? json.text
+      if (typeof text === "string" && text !== "") {
+        return Effect.succeed([new ReasoningMessage({ text })])
+      }
+      return Effect.succeed([new PingEvent({ timestamp: DateTime.nowUnsafe() })])
+    }
+
+    case "step_finish": {
+      // Report usage for the step; the stream ends naturally
+      const tokens = json.part?.tokens
+      if (!tokens) return Effect.succeed([])
+      return Effect.succeed([new UsageEvent({
+        inputTokens: tokens.input ?? 0,
+        outputTokens: (tokens.output ?? 0) + (tokens.reasoning ?? 0),
+        cacheReadTokens: tokens.cache?.read ?? 0,
+        cacheWriteTokens: tokens.cache?.write ?? 0,
+        ...(typeof json.part?.cost === "number" ? { costUsd: json.part.cost } : {})
+      })])
+    }
+
+    case "error": {
+      const message = json.error?.data?.message ?? json.error?.name ?? "OpenCode error"
+      return Effect.fail(classifySessionError(message, {
+        retryable: json.error?.data?.isRetryable,
+        status: json.error?.data?.statusCode
+      }))
+    }
 
     default:
       // Unknown event type - emit PingEvent as heartbeat
@@ -104,18 +181,30 @@ const tryParseJson = (line: string): unknown | null => {
 }
 
 /**
- * Create the spawn stream for OpenCode using `opencode run --format json`
+ * Create the spawn stream for OpenCode using `opencode run --format json`.
+ * With `resume`, continues the OpenCode session recorded for the session ID via `--session`.
  */
 const createSpawnStream = (
-  options: LlmAgentSpawnOptions
+  options: LlmAgentSpawnOptions,
+  sessions: AgentSessions
 ): Stream.Stream<LlmAgentEvent, LlmSessionError> => {
   const args: Array<string> = ["run", "--format", "json"]
 
-  // Add the prompt as the final positional argument
-  args.push(options.prompt)
+  // OpenCode expects models in provider/model form (e.g. anthropic/claude-sonnet-4)
+  if (options.model) {
+    args.push("--model", options.model)
+  }
+
+  // Continue the OpenCode session recorded for this session ID,
+  // and add the prompt as the final positional argument
+  const openCodeSession = resumedSessionId(sessions, "opencode", options)
+  const spawnArgs = (openCodeSessionId: string | undefined): Array<string> =>
+    openCodeSessionId !== undefined
+      ? [...args, "--session", openCodeSessionId, options.prompt]
+      : [...args, options.prompt]
 
   // Build environment with optional system prompt injection
-  const buildEnvAndSpawn = options.systemPrompt
+  const buildEnvAndSpawn = (openCodeSessionId: string | undefined) => options.systemPrompt
     ? Effect.acquireRelease(
         Effect.sync(() => {
           // Write system prompt to temp file inside .cuggino/
@@ -133,7 +222,7 @@ const createSpawnStream = (
             env.OPENCODE_PERMISSION = JSON.stringify({ "*": "allow" })
           }
 
-          const child = spawn("opencode", args, {
+          const child = spawn("opencode", spawnArgs(openCodeSessionId), {
             cwd: options.cwd,
             stdio: ["ignore", "pipe", "pipe"],
             env
@@ -157,7 +246,7 @@ const createSpawnStream = (
           const env: Record<string, string | undefined> | undefined = options.dangerouslySkipPermissions
             ? { ...process.env, OPENCODE_PERMISSION: JSON.stringify({ "*": "allow" }) }
             : undefined
-          const child = spawn("opencode", args, {
+          const child = spawn("opencode", spawnArgs(openCodeSessionId), {
             cwd: options.cwd,
             stdio: ["ignore", "pipe", "pipe"],
             env
@@ -172,23 +261,32 @@ const createSpawnStream = (
       )
 
   return Stream.unwrap(
-    buildEnvAndSpawn.pipe(
+    openCodeSession.pipe(
+      Effect.flatMap(buildEnvAndSpawn),
       Effect.map(({ child }) => {
+        const session: OpenCodeParserState = { sessionId: undefined, toolCalls: new Set() }
+
         const stdoutStream = NodeStream.fromReadable<Uint8Array, LlmSessionError>({
           evaluate: () => child.stdout!,
-          onError: (err) => new LlmSessionError({ message: err instanceof Error ? err.message : String(err) })
+          onError: (err) => classifySessionError(err instanceof Error ? err.message : String(err))
         }).pipe(
           Stream.decodeText("utf-8"),
           Stream.splitLines,
           Stream.map(tryParseJson),
           Stream.filter((json): json is unknown => json !== null),
-          Stream.mapEffect((json: unknown) => parseOpenCodeEvent(json)),
-          Stream.flatMap((events) => Stream.fromIterable(events))
+          Stream.mapEffect((json: unknown) => parseOpenCodeEvent(json, session)),
+          Stream.flatMap((events) => Stream.fromIterable(events)),
+          // Remember OpenCode's session ID for resume
+          Stream.ensuring(Effect.suspend(() =>
+            options.sessionId && session.sessionId
+              ? sessions.write("opencode", options.sessionId, session.sessionId)
+              : Effect.void
+          ))
         )
 
         const stderrStream = NodeStream.fromReadable<Uint8Array, LlmSessionError>({
           evaluate: () => child.stderr!,
-          onError: (err) => new LlmSessionError({ message: err instanceof Error ? err.message : String(err) })
+          onError: (err) => classifySessionError(err instanceof Error ? err.message : String(err))
         }).pipe(
           Stream.decodeText("utf-8"),
           Stream.splitLines,
@@ -255,10 +353,14 @@ const createInteractiveSession = (
   })
 }
 
-export const OpenCodeLlmAgentLayer = Layer.succeed(
+export const OpenCodeLlmAgentLayer = Layer.effect(
   LlmAgent,
-  {
-    spawn: (options) => createSpawnStream(options),
-    interactive: (options) => createInteractiveSession(options)
-  }
+  Effect.gen(function*() {
+    const storage = yield* StorageService
+    const sessions = makeAgentSessions(yield* FileSystem.FileSystem, storage.agentSessionsPath)
+    return {
+      spawn: (options) => createSpawnStream(options, sessions),
+      interactive: (options) => createInteractiveSession(options)
+    }
+  })
 )
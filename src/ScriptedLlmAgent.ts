@@ -0,0 +1,174 @@
+import { DateTime, Effect, FileSystem, Layer, Schema, ServiceMap, Stream } from "effect"
+import * as path from "node:path"
+import { LlmAgent, type LlmAgentShape, type LlmAgentSpawnOptions } from "./LlmAgent.js"
+import { LlmAgentEventSchema, LlmSessionError, PingEvent, type LlmAgentEvent } from "./LlmAgentEvent.js"
+import { StorageService } from "./StorageService.js"
+
+/**
+ * Fixture file for the n-th call (1-based) of a role, e.g. `planning-2.jsonl`
+ */
+const fixtureFileName = (role: string, call: number): string => `${role}-${call}.jsonl`
+
+/**
+ * Increment and return the call counter of a role
+ */
+const nextCall = (counters: Map<string, number>, role: string): number => {
+  const call = (counters.get(role) ?? 0) + 1
+  counters.set(role, call)
+  return call
+}
+
+const decodeEvent = Schema.decodeUnknownSync(LlmAgentEventSchema)
+
+/**
+ * Parse one fixture line.
+ * Returns the event to emit, or an LlmSessionError the replayed stream should fail with.
+ * Ping timestamps are not replayed — a fresh one is used.
+ */
+const parseFixtureLine = (line: string): LlmAgentEvent | LlmSessionError => {
+  const json = JSON.parse(line) as { _tag?: unknown; message?: unknown; transient?: unknown; resetAt?: unknown; sessionNotFound?: unknown }
+  switch (json._tag) {
+    case "LlmSessionError":
+      return new LlmSessionError({
+        message: typeof json.message === "string" ? json.message : "Scripted error",
+        ...(typeof json.transient === "boolean" ? { transient: json.transient } : {}),
+        ...(typeof json.resetAt === "string" ? { resetAt: DateTime.makeUnsafe(json.resetAt) } : {}),
+        ...(typeof json.sessionNotFound === "boolean" ? { sessionNotFound: json.sessionNotFound } : {})
+      })
+    case "PingEvent":
+      return new PingEvent({ timestamp: DateTime.nowUnsafe() })
+    default:
+      return decodeEvent(json)
+  }
+}
+
+/**
+ * Read the fixture for a call: `<role>-<n>.jsonl`, falling back to `<role>.jsonl`
+ * (replayed for every call of that role)
+ */
+const readFixture = (
+  fs: FileSystem.FileSystem,
+  dir: string,
+  role: string,
+  call: number
+): Effect.Effect<Array<LlmAgentEvent | LlmSessionError>, LlmSessionError> =>
+  Effect.gen(function*() {
+    for (const file of [path.join(dir, fixtureFileName(role, call)), path.join(dir, `${role}.jsonl`)]) {
+      if (!(yield* fs.exists(file))) continue
+      const content = yield* fs.readFileString(file)
+      return yield* Effect.try({
+        try: () => content.split("\n").filter((line) => line.trim() !== "").map(parseFixtureLine),
+        catch: (cause) => new LlmSessionError({ message: `Invalid fixture ${file}: ${cause instanceof Error ? cause.message : String(cause)}` })
+      })
+    }
+    return yield* Effect.fail(new LlmSessionError({ message: `No fixture for ${role} call ${call} in ${dir}` }))
+  }).pipe(
+    Effect.catchTag("PlatformError", (error) => Effect.fail(new LlmSessionError({ message: error.message })))
+  )
+
+/**
+ * Replay the fixture for the next call of the spawn's role
+ */
+const createReplayStream = (
+  fs: FileSystem.FileSystem,
+  fixturesDir: string,
+  options: LlmAgentSpawnOptions,
+  counters: Map<string, number>
+): Stream.Stream<LlmAgentEvent, LlmSessionError> => {
+  const role = options.role ?? "agent"
+  return Stream.unwrap(
+    // Count calls when the stream runs, so a retried phase replays the next fixture
+    Effect.suspend(() => readFixture(fs, fixturesDir, role, nextCall(counters, role))).pipe(
+      Effect.map((entries) =>
+        Stream.fromIterable(entries).pipe(
+          Stream.mapEffect((entry) => entry._tag === "LlmSessionError" ? Effect.fail(entry) : Effect.succeed(entry))
+        )
+      )
+    )
+  )
+}
+
+/**
+ * Scripted implementation of the LlmAgent service
+ *
+ * Replays LlmAgentEvent sequences from JSONL fixtures in the project's `.cuggino/fixtures/`
+ * (also when the loop runs in a worktree), matched per role (planning, implementing, reviewing, audit)
+ * and per call. Does not support interactive sessions.
+ */
+export const ScriptedLlmAgentLayer = Layer.effect(
+  LlmAgent,
+  Effect.gen(function*() {
+    const fs = yield* FileSystem.FileSystem
+    const storage = yield* StorageService
+    const counters = new Map<string, number>()
+    return {
+      spawn: (options) => createReplayStream(fs, storage.fixturesDir, options, counters),
+      interactive: () => Effect.fail(new LlmSessionError({ message: "The scripted agent does not support interactive sessions" }))
+    }
+  })
+)
+
+/**
+ * Records the sessions of agents as fixtures
+ */
+export interface AgentRecorderShape {
+  /** Wrap an agent so that every session it spawns is recorded */
+  readonly record: (agent: LlmAgentShape) => LlmAgentShape
+}
+
+export class AgentRecorder extends ServiceMap.Service<AgentRecorder, AgentRecorderShape>()("AgentRecorder") {}
+
+/**
+ * Fixture recorder (`--record`)
+ *
+ * Captures every spawned session of the agents it wraps into `.cuggino/fixtures/`
+ * in the format replayed by ScriptedLlmAgentLayer. Existing fixtures are overwritten.
+ * Calls are numbered per role across all wrapped agents, as the scripted agent replays them.
+ */
+export const AgentRecorderLayer = Layer.effect(
+  AgentRecorder,
+  Effect.gen(function*() {
+    const storage = yield* StorageService
+    const fs = yield* FileSystem.FileSystem
+    const counters = new Map<string, number>()
+
+    // Recording is best effort: a write failure never fails the agent's stream
+    const append = (file: string, entry: unknown) =>
+      fs.writeFileString(file, JSON.stringify(entry) + "\n", { flag: "a" }).pipe(Effect.ignore)
+
+    return {
+      record: (agent) => ({
+        spawn: (options) => {
+          const role = options.role ?? "agent"
+          return Stream.unwrap(
+            Effect.gen(function*() {
+              const file = path.join(storage.fixturesDir, fixtureFileName(role, nextCall(counters, role)))
+              yield* fs.makeDirectory(storage.fixturesDir, { recursive: true })
+              yield* fs.writeFileString(file, "")
+              return agent.spawn(options).pipe(
+                Stream.tap((event) => append(file, event)),
+                Stream.tapError((error) => append(file, error))
+              )
+            }).pipe(
+              Effect.catchTag("PlatformError", (error) => Effect.fail(new LlmSessionError({ message: error.message })))
+            )
+          )
+        },
+        interactive: (options) => agent.interactive(options)
+      })
+    }
+  })
+)
+
+/**
+ * Recording wrapper for the LlmAgent service: the `--agent` provider, recorded by the AgentRecorder.
+ * Phase agents resolved with `resolvePhaseAgent` are recorded by the same recorder.
+ */
+export const RecordingLlmAgentLayer = Layer.effect(
+  LlmAgent,
+  Effect.gen(function*() {
+    const agent = yield* LlmAgent
+    const recorder = yield* AgentRecorder
+    return recorder.record(agent)
+  })
+)
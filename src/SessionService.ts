@@ -1,6 +1,8 @@
 import { Effect, Layer, Option, ServiceMap, Data, FileSystem, Path, LayerMap } from "effect"
 import type { LlmMarkerEvent } from "./LlmMarkerEvent.js"
-import { StorageService } from "./StorageService.js"
+import { requestChangesBody } from "./LlmMarkerEvent.js"
+import { StorageService, encodeLoopCheckpoint, type LoopCheckpoint } from "./StorageService.js"
+import { makeAgentSessions } from "./agentSessions.js"
 
 /**
  * Error when session operations fail
@@ -43,6 +45,9 @@ export interface SessionServiceShape {
   /** Read the code review (if exists) */
   readonly readReview: () => Effect.Effect<Option.Option<string>, SessionError>
 
+  /** Read the session file (plan and progress log) */
+  readonly readSession: () => Effect.Effect<string, SessionError>
+
   /** Get the session file path */
   readonly getSessionPath: () => Effect.Effect<string, SessionError>
 
@@ -52,14 +57,26 @@ export interface SessionServiceShape {
   /** Get a temporary plan file path (for planning agent to write to) */
   readonly getTempPlanPath: () => Effect.Effect<string, SessionError>
 
-  /** Get the check output file path */
-  readonly getCheckOutputPath: () => Effect.Effect<string, SessionError>
+  /** Get the check output file path (of a named step, when given the step's file id) */
+  readonly getCheckOutputPath: (stepFileId?: string) => Effect.Effect<string, SessionError>
 
-  /** Get the setup output file path */
-  readonly getSetupOutputPath: () => Effect.Effect<string, SessionError>
+  /** Get the setup output file path (of a named step, when given the step's file id) */
+  readonly getSetupOutputPath: (stepFileId?: string) => Effect.Effect<string, SessionError>
 
   /** Read from temp plan file and move content to session file, then delete temp */
   readonly commitTempPlan: () => Effect.Effect<void, SessionError>
+
+  /** Record the id of an agent session spawned for this session, so its backend session id is forgotten on cleanup */
+  readonly trackAgentSession: (agentSessionId: string) => Effect.Effect<void, SessionError>
+
+  /** Save the loop state to the session's state file */
+  readonly saveCheckpoint: (checkpoint: Omit<LoopCheckpoint, "sessionId">) => Effect.Effect<void, SessionError>
+
+  /** Remove the state file once the loop has finished */
+  readonly clearCheckpoint: () => Effect.Effect<void, SessionError>
+
+  /** Copy the plan (session file) and the review, if any, to `plan.md` and `review.md` in a folder */
+  readonly archive: (dir: string) => Effect.Effect<void, SessionError>
 }
 
 /**
@@ -70,7 +87,7 @@ export class SessionService extends ServiceMap.Service<SessionService, SessionSe
 /**
  * Map marker _tag to its uppercase label
  */
-const markerLabel: Record<LlmMarkerEvent["_tag"], string> = {
+const markerLabel: Record<Exclude<LlmMarkerEvent["_tag"], "CustomMarker">, string> = {
   Note: "NOTE",
   SpecIssue: "SPEC_ISSUE",
   Done: "DONE",
@@ -78,7 +95,8 @@ const markerLabel: Record<LlmMarkerEvent["_tag"], string> = {
   Approved: "APPROVED",
   RequestChanges: "REQUEST_CHANGES",
   PlanComplete: "PLAN_COMPLETE",
-  ToBeDiscussed: "TO_BE_DISCUSSED"
+  ToBeDiscussed: "TO_BE_DISCUSSED",
+  NeedsHuman: "NEEDS_HUMAN"
 }
 
 /**
@@ -93,9 +111,10 @@ const formatTimestamp = (date: Date): string => {
  * Format a marker event as a markdown heading with timestamp
  */
 const formatMarker = (marker: LlmMarkerEvent, now: Date): string => {
-  const label = markerLabel[marker._tag]
+  const label = marker._tag === "CustomMarker" ? marker.tag : markerLabel[marker._tag]
   const timestamp = formatTimestamp(now)
-  return `\n## ${timestamp} (${label})\n\n${marker.content}\n`
+  const body = marker._tag === "RequestChanges" ? requestChangesBody(marker) : marker.content
+  return `\n## ${timestamp} (${label})\n\n${body}\n`
 }
 
 /**
@@ -117,18 +136,42 @@ export class SessionServiceMap extends LayerMap.Service<SessionServiceMap>()("Se
       const tempPlanPath = path.join(storage.wipDir, `${sessionId}.plan.md`)
       const checkOutputPath = path.join(storage.wipDir, `${sessionId}.check.txt`)
       const setupOutputPath = path.join(storage.wipDir, `${sessionId}.setup.txt`)
+      const statePath = path.join(storage.wipDir, `${sessionId}.state.json`)
+      // Agent session ids spawned for this session, one per line (kept with a resumable loop)
+      const agentSessionsPath = path.join(storage.wipDir, `${sessionId}.agents.txt`)
+      const agentSessions = makeAgentSessions(fs, storage.agentSessionsPath)
+      const trackedAgentSessions = new Set<string>()
+      // Output files of named setup and check steps, handed out on demand
+      const stepOutputPaths = new Set<string>()
+      const stepOutputPath = (kind: "check" | "setup", stepFileId: string) => {
+        const stepPath = path.join(storage.wipDir, `${sessionId}.${kind}.${stepFileId}.txt`)
+        stepOutputPaths.add(stepPath)
+        return stepPath
+      }
 
-      // Create the session file
-      yield* fs.writeFileString(sessionPath, "")
+      // Create the session file (a resumed session keeps its plan and progress log)
+      if (!(yield* fs.exists(sessionPath))) {
+        yield* fs.writeFileString(sessionPath, "")
+      }
 
-      // Register finalizer to clean up all session files
+      // Register finalizer to clean up all session files, unless the loop is unfinished
+      // (its state file is still there) and may be resumed
       yield* Effect.addFinalizer(() =>
         Effect.gen(function*() {
+          if (yield* fs.exists(statePath)) return
           if (yield* fs.exists(sessionPath)) yield* fs.remove(sessionPath)
           if (yield* fs.exists(reviewPath)) yield* fs.remove(reviewPath)
           if (yield* fs.exists(tempPlanPath)) yield* fs.remove(tempPlanPath)
           if (yield* fs.exists(checkOutputPath)) yield* fs.remove(checkOutputPath)
           if (yield* fs.exists(setupOutputPath)) yield* fs.remove(setupOutputPath)
+          for (const stepPath of stepOutputPaths) {
+            yield* fs.remove(stepPath, { force: true })
+          }
+          if (yield* fs.exists(agentSessionsPath)) {
+            const ids = (yield* fs.readFileString(agentSessionsPath)).split("\n").filter((id) => id !== "")
+            yield* agentSessions.remove(ids)
+            yield* fs.remove(agentSessionsPath)
+          }
         }).pipe(Effect.ignore)
       )
 
@@ -185,11 +228,22 @@ export class SessionServiceMap extends LayerMap.Service<SessionServiceMap>()("Se
             )
           ),
 
+        readSession: () =>
+          fs.readFileString(sessionPath).pipe(
+            Effect.catch((cause) =>
+              cause instanceof SessionError
+                ? Effect.fail(cause)
+                : Effect.fail(new SessionError({ operation: "readSession", sessionId, cause }))
+            )
+          ),
+
         getSessionPath: () => Effect.succeed(sessionPath),
         getReviewPath: () => Effect.succeed(reviewPath),
         getTempPlanPath: () => Effect.succeed(tempPlanPath),
-        getCheckOutputPath: () => Effect.succeed(checkOutputPath),
-        getSetupOutputPath: () => Effect.succeed(setupOutputPath),
+        getCheckOutputPath: (stepFileId?: string) =>
+          Effect.succeed(stepFileId === undefined ? checkOutputPath : stepOutputPath("check", stepFileId)),
+        getSetupOutputPath: (stepFileId?: string) =>
+          Effect.succeed(stepFileId === undefined ? setupOutputPath : stepOutputPath("setup", stepFileId)),
 
         commitTempPlan: () =>
           Effect.gen(function*() {
@@ -202,6 +256,52 @@ export class SessionServiceMap extends LayerMap.Service<SessionServiceMap>()("Se
                 ? Effect.fail(cause)
                 : Effect.fail(new SessionError({ operation: "commitTempPlan", sessionId, cause }))
             )
+          ),
+
+        trackAgentSession: (agentSessionId: string) =>
+          Effect.gen(function*() {
+            if (trackedAgentSessions.has(agentSessionId)) return
+            trackedAgentSessions.add(agentSessionId)
+            yield* fs.writeFileString(agentSessionsPath, `${agentSessionId}\n`, { flag: "a" })
+          }).pipe(
+            Effect.catch((cause) =>
+              cause instanceof SessionError
+                ? Effect.fail(cause)
+                : Effect.fail(new SessionError({ operation: "trackAgentSession", sessionId, cause }))
+            )
+          ),
+
+        saveCheckpoint: (checkpoint: Omit<LoopCheckpoint, "sessionId">) =>
+          fs.writeFileString(statePath, encodeLoopCheckpoint({ sessionId, ...checkpoint }) + "\n").pipe(
+            Effect.catch((cause) =>
+              cause instanceof SessionError
+                ? Effect.fail(cause)
+                : Effect.fail(new SessionError({ operation: "saveCheckpoint", sessionId, cause }))
+            )
+          ),
+
+        clearCheckpoint: () =>
+          fs.remove(statePath, { force: true }).pipe(
+            Effect.catch((cause) =>
+              cause instanceof SessionError
+                ? Effect.fail(cause)
+                : Effect.fail(new SessionError({ operation: "clearCheckpoint", sessionId, cause }))
+            )
+          ),
+
+        archive: (dir: string) =>
+          Effect.gen(function*() {
+            yield* fs.makeDirectory(dir, { recursive: true })
+            yield* fs.copyFile(sessionPath, path.join(dir, "plan.md"))
+            if (yield* fs.exists(reviewPath)) {
+              yield* fs.copyFile(reviewPath, path.join(dir, "review.md"))
+            }
+          }).pipe(
+            Effect.catch((cause) =>
+              cause instanceof SessionError
+                ? Effect.fail(cause)
+                : Effect.fail(new SessionError({ operation: "archive", sessionId, cause }))
+            )
           )
       }
     }).pipe(
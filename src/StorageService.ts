@@ -1,5 +1,7 @@
-import { Effect, Layer, ServiceMap, Data, FileSystem, Path, Schema } from "effect"
+import { Effect, Layer, ServiceMap, Data, FileSystem, Path, Schema, Option } from "effect"
 import * as Uuid from "uuid"
+import { defaultMarkerConfig } from "./LlmMarkerEvent.js"
+import { makeAgentSessions } from "./agentSessions.js"
 
 /**
  * Error when storage operations fail
@@ -13,15 +15,305 @@ export class StorageError extends Data.TaggedError("StorageError")<{
   }
 }
 
+export const AgentName = Schema.Union([
+  Schema.Literal("claude"),
+  Schema.Literal("codex"),
+  Schema.Literal("opencode"),
+  Schema.Literal("gemini"),
+  Schema.Literal("custom"),
+  Schema.Literal("scripted")
+])
+
+export type AgentName = typeof AgentName.Type
+
+/**
+ * Agent and model selection for a single phase.
+ * Absent fields fall back to the `--agent` flag and the provider's default model.
+ */
+export const PhaseAgentConfig = Schema.Struct({
+  agent: Schema.optionalKey(AgentName),
+  model: Schema.optionalKey(Schema.String)
+})
+
+export type PhaseAgentConfig = typeof PhaseAgentConfig.Type
+
+export const PhasesConfig = Schema.Struct({
+  planning: Schema.optionalKey(PhaseAgentConfig),
+  implementing: Schema.optionalKey(PhaseAgentConfig),
+  reviewing: Schema.optionalKey(PhaseAgentConfig),
+  audit: Schema.optionalKey(PhaseAgentConfig)
+})
+
+export type PhasesConfig = typeof PhasesConfig.Type
+
+/**
+ * Stall watchdog for agent processes, in seconds. Limits are not enforced when absent.
+ * `retries` is how many times a stalled phase is re-run before the loop fails (default 1).
+ */
+export const WatchdogConfig = Schema.Struct({
+  inactivityTimeout: Schema.optionalKey(Schema.Number),
+  phaseTimeout: Schema.optionalKey(Schema.Number),
+  retries: Schema.optionalKey(Schema.Number)
+})
+
+export type WatchdogConfig = typeof WatchdogConfig.Type
+
+/**
+ * Retry policy for transient agent failures (rate limits, overload, network), in seconds.
+ * Defaults: 5 attempts, 10s initial delay doubling up to 300s, and waiting up to an hour for a rate limit to reset.
+ */
+export const RetryConfig = Schema.Struct({
+  maxAttempts: Schema.optionalKey(Schema.Number),
+  initialDelay: Schema.optionalKey(Schema.Number),
+  maxDelay: Schema.optionalKey(Schema.Number),
+  maxResetWait: Schema.optionalKey(Schema.Number)
+})
+
+export type RetryConfig = typeof RetryConfig.Type
+
+/**
+ * A named setup or check step. `cwd` is relative to the project (or worktree) root,
+ * `timeout` is in seconds, and a step is `required` unless set to false.
+ */
+export const CommandStep = Schema.Struct({
+  name: Schema.String,
+  command: Schema.String,
+  cwd: Schema.optionalKey(Schema.String),
+  timeout: Schema.optionalKey(Schema.Number),
+  required: Schema.optionalKey(Schema.Boolean)
+})
+
+export type CommandStep = typeof CommandStep.Type
+
+/**
+ * A setup or check command: a single shell command, or an ordered list of named steps
+ */
+export const CommandConfig = Schema.Union([Schema.String, Schema.Array(CommandStep)])
+
+export type CommandConfig = typeof CommandConfig.Type
+
+/**
+ * Spending limits, not enforced when absent. `maxDuration` is wall-clock seconds;
+ * `maxTokens` counts input, output and cache tokens; `maxCostUsd` only counts cost reported by the agents.
+ */
+export const BudgetConfig = Schema.Struct({
+  maxDuration: Schema.optionalKey(Schema.Number),
+  maxTokens: Schema.optionalKey(Schema.Number),
+  maxCostUsd: Schema.optionalKey(Schema.Number)
+})
+
+export type BudgetConfig = typeof BudgetConfig.Type
+
+/**
+ * Budgets for each loop run and for a whole watch session
+ */
+export const BudgetsConfig = Schema.Struct({
+  loop: Schema.optionalKey(BudgetConfig),
+  watch: Schema.optionalKey(BudgetConfig)
+})
+
+export type BudgetsConfig = typeof BudgetsConfig.Type
+
+/**
+ * Run each loop in a git worktree on its own branch instead of the working tree.
+ * On approval the branch is merged (`merge`), fast-forwarded (`fast-forward`),
+ * or left for review (`branch`, the default).
+ */
+export const WorktreeConfig = Schema.Struct({
+  onApproval: Schema.optionalKey(Schema.Union([
+    Schema.Literal("merge"),
+    Schema.Literal("fast-forward"),
+    Schema.Literal("branch")
+  ])),
+  branchPrefix: Schema.optionalKey(Schema.String)
+})
+
+export type WorktreeConfig = typeof WorktreeConfig.Type
+
+/**
+ * What happens to the commits of a loop that hits max iterations (with auto-commit):
+ * kept on the branch (`keep`, the default), reset away (`revert`),
+ * or moved to a `cuggino/failed/<item>` branch (`branch`)
+ */
+export const MaxIterationsPolicy = Schema.Union([
+  Schema.Literal("keep"),
+  Schema.Literal("revert"),
+  Schema.Literal("branch")
+])
+
+export type MaxIterationsPolicy = typeof MaxIterationsPolicy.Type
+
+/**
+ * How auto-commit commits: after every task (`per-task`, the default), after every task and
+ * squashed into one commit on approval (`squash-on-approve`), or not at all (`none`)
+ */
+export const CommitStrategy = Schema.Union([
+  Schema.Literal("per-task"),
+  Schema.Literal("squash-on-approve"),
+  Schema.Literal("none")
+])
+
+export type CommitStrategy = typeof CommitStrategy.Type
+
+/**
+ * Run the check command after `DONE`, before auto-committing. When it fails, the commit is
+ * skipped and the check output goes to the next implementing iteration (`skip`),
+ * or the commit is made with a `[wip]` prefix (`wip`)
+ */
+export const CommitGate = Schema.Union([
+  Schema.Literal("skip"),
+  Schema.Literal("wip")
+])
+
+export type CommitGate = typeof CommitGate.Type
+
+/**
+ * Check command output formats whose diagnostics are summarized for the agents
+ * (`vitest` also reads jest output and vice versa)
+ */
+export const DiagnosticFormat = Schema.Union([
+  Schema.Literal("tsc"),
+  Schema.Literal("eslint"),
+  Schema.Literal("vitest"),
+  Schema.Literal("jest"),
+  Schema.Literal("generic")
+])
+
+export type DiagnosticFormat = typeof DiagnosticFormat.Type
+
+export const QuestionChannel = Schema.Union([
+  Schema.Literal("terminal"),
+  Schema.Literal("telegram"),
+  Schema.Literal("file")
+])
+
+export type QuestionChannel = typeof QuestionChannel.Type
+
+/**
+ * How NEEDS_HUMAN questions reach a human.
+ * The channel defaults to `terminal` when stdin is a TTY, `file` otherwise.
+ * `telegramChatId` skips the auth-code handshake; `pollInterval` (seconds, default 5)
+ * is how often the `file` channel checks for an answer.
+ */
+export const QuestionsConfig = Schema.Struct({
+  channel: Schema.optionalKey(QuestionChannel),
+  telegramToken: Schema.optionalKey(Schema.String),
+  telegramChatId: Schema.optionalKey(Schema.Number),
+  pollInterval: Schema.optionalKey(Schema.Number),
+  terminalTimeout: Schema.optionalKey(Schema.Number)
+})
+
+export type QuestionsConfig = typeof QuestionsConfig.Type
+
+export const LoopPhase = Schema.Union([
+  Schema.Literal("planning"),
+  Schema.Literal("implementing"),
+  Schema.Literal("reviewing")
+])
+
+export type LoopPhase = typeof LoopPhase.Type
+
+/**
+ * What happens when a custom marker is emitted: append it to a file, write it as a new file
+ * into a folder, run a shell command, or send a notification. Paths are relative to the project root.
+ */
+export const CustomMarkerAction = Schema.Union([
+  Schema.Struct({ type: Schema.Literal("append"), file: Schema.String }),
+  Schema.Struct({ type: Schema.Literal("folder"), folder: Schema.String }),
+  Schema.Struct({ type: Schema.Literal("command"), command: Schema.String }),
+  Schema.Struct({ type: Schema.Literal("notify") })
+])
+
+export type CustomMarkerAction = typeof CustomMarkerAction.Type
+
+/**
+ * A user-defined marker. `description` tells the agents when to emit it;
+ * `phases` defaults to all loop phases.
+ */
+export const CustomMarkerConfig = Schema.Struct({
+  description: Schema.String,
+  phases: Schema.optionalKey(Schema.Array(LoopPhase)),
+  action: CustomMarkerAction
+})
+
+export type CustomMarkerConfig = typeof CustomMarkerConfig.Type
+
+/**
+ * Tag of a custom marker: upper-case letters, digits, and underscores, starting with a letter,
+ * and not one of the built-in markers
+ */
+export const CustomMarkerTag = Schema.String.check(
+  Schema.isPattern(/^[A-Z][A-Z0-9_]*$/),
+  Schema.makeFilter((tag) => !Object.hasOwn(defaultMarkerConfig, tag) || `${tag} is a built-in marker`)
+)
+
+/**
+ * Rule translating a JSON line from a custom agent into an LlmAgentEvent.
+ * `match` maps dot-paths to expected values; the other fields are dot-paths
+ * to read the event fields from.
+ */
+export const CustomAgentEventRule = Schema.Struct({
+  match: Schema.Record(Schema.String, Schema.Union([Schema.String, Schema.Number, Schema.Boolean])),
+  emit: Schema.Union([
+    Schema.Literal("AgentMessage"),
+    Schema.Literal("ReasoningMessage"),
+    Schema.Literal("ToolCall"),
+    Schema.Literal("ToolResult"),
+    Schema.Literal("PingEvent")
+  ]),
+  text: Schema.optionalKey(Schema.String),
+  id: Schema.optionalKey(Schema.String),
+  callId: Schema.optionalKey(Schema.String),
+  name: Schema.optionalKey(Schema.String),
+  input: Schema.optionalKey(Schema.String),
+  output: Schema.optionalKey(Schema.String),
+  isError: Schema.optionalKey(Schema.String)
+})
+
+export type CustomAgentEventRule = typeof CustomAgentEventRule.Type
+
+/**
+ * Command-based agent declared in config (selected with `--agent custom`).
+ * Argument lists may contain `{prompt}`, `{systemPrompt}`, `{sessionId}` and `{model}` placeholders.
+ */
+export const CustomAgentConfig = Schema.Struct({
+  command: Schema.String,
+  args: Schema.Array(Schema.String),
+  systemPromptArgs: Schema.optionalKey(Schema.Array(Schema.String)),
+  modelArgs: Schema.optionalKey(Schema.Array(Schema.String)),
+  sessionArgs: Schema.optionalKey(Schema.Array(Schema.String)),
+  resumeArgs: Schema.optionalKey(Schema.Array(Schema.String)),
+  skipPermissionsArgs: Schema.optionalKey(Schema.Array(Schema.String)),
+  interactiveArgs: Schema.optionalKey(Schema.Array(Schema.String)),
+  events: Schema.Array(CustomAgentEventRule)
+})
+
+export type CustomAgentConfig = typeof CustomAgentConfig.Type
+
 export const CugginoConfig = Schema.Struct({
   specsPath: Schema.String.pipe(Schema.withDecodingDefaultKey(() => ".specs")),
   maxIterations: Schema.Number.pipe(Schema.withDecodingDefaultKey(() => 10)),
-  setupCommand: Schema.optionalKey(Schema.String),
-  checkCommand: Schema.optionalKey(Schema.String),
+  setupCommand: Schema.optionalKey(CommandConfig),
+  checkCommand: Schema.optionalKey(CommandConfig),
+  diagnosticFormats: Schema.optionalKey(Schema.Array(DiagnosticFormat)),
   commit: Schema.Boolean.pipe(Schema.withDecodingDefaultKey(() => false)),
+  commitStrategy: Schema.optionalKey(CommitStrategy),
+  commitGate: Schema.optionalKey(CommitGate),
   push: Schema.optionalKey(Schema.String),
   audit: Schema.Boolean.pipe(Schema.withDecodingDefaultKey(() => false)),
-  notify: Schema.Union([Schema.Literal("none"), Schema.Literal("osx-notification")]).pipe(Schema.withDecodingDefaultKey(() => "none" as const))
+  notify: Schema.Union([Schema.Literal("none"), Schema.Literal("osx-notification")]).pipe(Schema.withDecodingDefaultKey(() => "none" as const)),
+  phases: Schema.optionalKey(PhasesConfig),
+  watchdog: Schema.optionalKey(WatchdogConfig),
+  retry: Schema.optionalKey(RetryConfig),
+  fallbackAgents: Schema.optionalKey(Schema.Array(AgentName)),
+  markerNudges: Schema.optionalKey(Schema.Number),
+  budgets: Schema.optionalKey(BudgetsConfig),
+  worktree: Schema.optionalKey(WorktreeConfig),
+  concurrency: Schema.optionalKey(Schema.Number),
+  onMaxIterations: Schema.optionalKey(MaxIterationsPolicy),
+  questions: Schema.optionalKey(QuestionsConfig),
+  customMarkers: Schema.optionalKey(Schema.Record(CustomMarkerTag, CustomMarkerConfig)),
+  customAgent: Schema.optionalKey(CustomAgentConfig)
 })
 
 export type CugginoConfig = typeof CugginoConfig.Type
@@ -29,6 +321,28 @@ export type CugginoConfig = typeof CugginoConfig.Type
 export const decodeCugginoConfig = Schema.decodeSync(Schema.fromJsonString(CugginoConfig))
 export const encodeCugginoConfig = Schema.encodeSync(Schema.fromJsonString(CugginoConfig))
 
+/**
+ * Loop state saved to `.cuggino/wip/<sessionId>.state.json` after every phase, so that an
+ * interrupted loop can be resumed. `iteration` and `phase` name the next phase to run.
+ */
+export const LoopCheckpoint = Schema.Struct({
+  sessionId: Schema.String,
+  focus: Schema.String,
+  iteration: Schema.Number,
+  phase: LoopPhase,
+  reviewPath: Schema.optionalKey(Schema.String),
+  initialCommitHash: Schema.optionalKey(Schema.String),
+  loopCommits: Schema.optionalKey(Schema.Array(Schema.String)),
+  uncommittedTask: Schema.optionalKey(Schema.Boolean),
+  worktreePath: Schema.optionalKey(Schema.String),
+  branch: Schema.optionalKey(Schema.String)
+})
+
+export type LoopCheckpoint = typeof LoopCheckpoint.Type
+
+export const decodeLoopCheckpoint = Schema.decodeSync(Schema.fromJsonString(LoopCheckpoint))
+export const encodeLoopCheckpoint = Schema.encodeSync(Schema.fromJsonString(LoopCheckpoint))
+
 /**
  * Storage service shape
  */
@@ -51,12 +365,37 @@ export interface StorageServiceShape {
   /** Path to .cuggino/tbd */
   readonly tbdDir: string
 
+  /** Path to .cuggino/questions */
+  readonly questionsDir: string
+
   /** Path to .cuggino/memory.md */
   readonly memoryPath: string
 
-  /** Remove all files from the wip/ directory (stale session cleanup) */
+  /** Path to .cuggino/agent-sessions.json (backend session ids for resume) */
+  readonly agentSessionsPath: string
+
+  /** Path to .cuggino/fixtures (scripted agent fixtures, created on first recording) */
+  readonly fixturesDir: string
+
+  /** Path to .cuggino/worktrees (loop worktrees, created by the first isolated loop) */
+  readonly worktreesDir: string
+
+  /** Path to .cuggino/failed (items of loops that hit max iterations, created on first use) */
+  readonly failedDir: string
+
+  /**
+   * Read the checkpoints of unfinished loops in wip/, oldest first (unreadable ones are skipped).
+   * A loop on an `@path` backlog item that no longer exists will never be resumed: its checkpoint
+   * and session files are removed instead.
+   */
+  readonly readCheckpoints: () => Effect.Effect<Array<LoopCheckpoint>, StorageError>
+
+  /** Remove all files from the wip/ directory (stale session cleanup), forgetting the backend sessions of their sessions */
   readonly cleanupWip: () => Effect.Effect<void, StorageError>
 
+  /** Forget the backend sessions recorded in agent-sessions.json for sessions that will not be resumed */
+  readonly forgetAgentSessions: (sessionIds: ReadonlyArray<string>) => Effect.Effect<void>
+
   /**
    * Write a spec issue to .cuggino/spec-issues/.
    * Generates a UUIDv7 filename, writes the content, and returns the filename.
@@ -69,6 +408,18 @@ export interface StorageServiceShape {
    */
   readonly writeTbdItem: (content: string) => Effect.Effect<string, StorageError>
 
+  /**
+   * Write a NEEDS_HUMAN question to .cuggino/questions/.
+   * Generates a UUIDv7 filename, writes the content, and returns the filename.
+   */
+  readonly writeQuestion: (content: string) => Effect.Effect<string, StorageError>
+
+  /**
+   * Read the answer to a question from `<id>.answer.md` next to it.
+   * Once answered, both files are removed. Returns None while the answer is missing or empty.
+   */
+  readonly takeAnswer: (filename: string) => Effect.Effect<Option.Option<string>, StorageError>
+
   readonly readConfig: () => Effect.Effect<CugginoConfig, StorageError>
   readonly writeConfig: (config: CugginoConfig) => Effect.Effect<void, StorageError>
 }
@@ -92,7 +443,12 @@ export const StorageServiceLayer = (cwd: string) => Layer.effect(
     const specIssuesDir = path.join(rootDir, "spec-issues")
     const backlogDir = path.join(rootDir, "backlog")
     const tbdDir = path.join(rootDir, "tbd")
+    const questionsDir = path.join(rootDir, "questions")
     const memoryPath = path.join(rootDir, "memory.md")
+    const agentSessionsPath = path.join(rootDir, "agent-sessions.json")
+    const fixturesDir = path.join(rootDir, "fixtures")
+    const worktreesDir = path.join(rootDir, "worktrees")
+    const failedDir = path.join(rootDir, "failed")
 
     // Ensure all directories exist
     yield* fs.makeDirectory(rootDir, { recursive: true })
@@ -100,6 +456,32 @@ export const StorageServiceLayer = (cwd: string) => Layer.effect(
     yield* fs.makeDirectory(specIssuesDir, { recursive: true })
     yield* fs.makeDirectory(backlogDir, { recursive: true })
     yield* fs.makeDirectory(tbdDir, { recursive: true })
+    yield* fs.makeDirectory(questionsDir, { recursive: true })
+
+    const agentSessions = makeAgentSessions(fs, agentSessionsPath)
+
+    /**
+     * Forget the backend sessions listed in a session's `<uuid>.agents.txt`
+     */
+    const forgetTrackedAgentSessions = (agentsPath: string) =>
+      Effect.gen(function*() {
+        if (!(yield* fs.exists(agentsPath))) return
+        const ids = (yield* fs.readFileString(agentsPath)).split("\n").filter((id) => id !== "")
+        yield* agentSessions.remove(ids)
+      })
+
+    /**
+     * Remove the files of a session in wip/ and forget the backend sessions it spawned
+     */
+    const removeSessionFiles = (sessionId: string) =>
+      Effect.gen(function*() {
+        yield* forgetTrackedAgentSessions(path.join(wipDir, `${sessionId}.agents.txt`))
+        for (const file of yield* fs.readDirectory(wipDir)) {
+          if (file.startsWith(`${sessionId}.`)) {
+            yield* fs.remove(path.join(wipDir, file), { force: true })
+          }
+        }
+      })
 
     return {
       cwd,
@@ -108,12 +490,46 @@ export const StorageServiceLayer = (cwd: string) => Layer.effect(
       specIssuesDir,
       backlogDir,
       tbdDir,
+      questionsDir,
       memoryPath,
+      agentSessionsPath,
+      fixturesDir,
+      worktreesDir,
+      failedDir,
+
+      readCheckpoints: () =>
+        Effect.gen(function*() {
+          const files = (yield* fs.readDirectory(wipDir)).filter((file) => file.endsWith(".state.json")).sort()
+          const checkpoints: Array<LoopCheckpoint> = []
+          for (const file of files) {
+            const content = yield* fs.readFileString(path.join(wipDir, file))
+            let checkpoint: LoopCheckpoint
+            try {
+              checkpoint = decodeLoopCheckpoint(content)
+            } catch {
+              // Skip corrupt checkpoints
+              continue
+            }
+            if (checkpoint.focus.startsWith("@") && !(yield* fs.exists(path.resolve(cwd, checkpoint.focus.slice(1))))) {
+              yield* removeSessionFiles(checkpoint.sessionId)
+              continue
+            }
+            checkpoints.push(checkpoint)
+          }
+          return checkpoints
+        }).pipe(
+          Effect.catch((cause) =>
+            cause instanceof StorageError
+              ? Effect.fail(cause)
+              : Effect.fail(new StorageError({ operation: "readCheckpoints", cause }))
+          )
+        ),
 
       cleanupWip: () =>
         Effect.gen(function*() {
           const files = yield* fs.readDirectory(wipDir)
           for (const file of files) {
+            if (file.endsWith(".agents.txt")) yield* forgetTrackedAgentSessions(path.join(wipDir, file))
             yield* fs.remove(path.join(wipDir, file))
           }
         }).pipe(
@@ -124,6 +540,8 @@ export const StorageServiceLayer = (cwd: string) => Layer.effect(
           )
         ),
 
+      forgetAgentSessions: (sessionIds) => agentSessions.remove(sessionIds),
+
       writeSpecIssue: (content: string) =>
         Effect.gen(function*() {
           const filename = `${Uuid.v7()}.md`
@@ -150,6 +568,44 @@ export const StorageServiceLayer = (cwd: string) => Layer.effect(
           )
         ),
 
+      writeQuestion: (content: string) =>
+        Effect.gen(function*() {
+          const filename = `${Uuid.v7()}.md`
+          const answerFilename = filename.replace(/\.md$/, ".answer.md")
+          yield* fs.writeFileString(
+            path.join(questionsDir, filename),
+            `${content}\n\n---\n\nWrite your answer to ${answerFilename} in this folder.\n`
+          )
+          return filename
+        }).pipe(
+          Effect.catch((cause) =>
+            cause instanceof StorageError
+              ? Effect.fail(cause)
+              : Effect.fail(new StorageError({ operation: "writeQuestion", cause }))
+          )
+        ),
+
+      takeAnswer: (filename: string) =>
+        Effect.gen(function*() {
+          const answerPath = path.join(questionsDir, filename.replace(/\.md$/, ".answer.md"))
+          if (!(yield* fs.exists(answerPath))) {
+            return Option.none()
+          }
+          const answer = (yield* fs.readFileString(answerPath)).trim()
+          if (answer === "") {
+            return Option.none()
+          }
+          yield* fs.remove(answerPath)
+          yield* fs.remove(path.join(questionsDir, filename), { force: true })
+          return Option.some(answer)
+        }).pipe(
+          Effect.catch((cause) =>
+            cause instanceof StorageError
+              ? Effect.fail(cause)
+              : Effect.fail(new StorageError({ operation: "takeAnswer", cause }))
+          )
+        ),
+
       readConfig: () =>
         Effect.gen(function*() {
           const configFilePath = path.join(cwd, ".cuggino.json")
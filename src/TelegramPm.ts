@@ -86,6 +86,8 @@ export const runTelegramPm = (options: RunTelegramPmOptions): Effect.Effect<void
 
     // 2. Session setup
     const sessionId = Uuid.v7()
+    // The session is never resumed once the bot stops: forget its backend session then
+    yield* Effect.addFinalizer(() => options.storage.forgetAgentSessions([sessionId]))
     const typing = makeTypingIndicator(options.botToken, chatId)
     let isFirstMessage = true
     let currentOffset = initialOffset
@@ -117,14 +119,19 @@ export const runTelegramPm = (options: RunTelegramPmOptions): Effect.Effect<void
           prompt: messageText,
           systemPrompt: options.systemPrompt,
           dangerouslySkipPermissions: true,
-          sessionId,
-          resume: !isFirstMessage
+          sessionId
         }
+        const resume = !isFirstMessage
         isFirstMessage = false
 
         const tools = new Set<string>()
 
-        yield* options.agent.spawn(spawnOptions).pipe(
+        yield* options.agent.spawn({ ...spawnOptions, resume }).pipe(
+          // No session to continue (the first message failed early): start one with this message
+          Stream.catchIf(
+            (error) => resume && error.sessionNotFound === true,
+            () => options.agent.spawn({ ...spawnOptions, resume: false })
+          ),
           Stream.tap(() => typing.send),
           Stream.runForEach((event) => {
             if (event._tag === "AgentMessage") {
@@ -149,4 +156,4 @@ export const runTelegramPm = (options: RunTelegramPmOptions): Effect.Effect<void
         }
       }
     }
-  })
+  }).pipe(Effect.scoped)
@@ -1,4 +1,5 @@
-import { Schema } from "effect"
+import { Data, Schema } from "effect"
+import { BudgetLimit, type LoopEvent } from "./LoopEvent.js"
 
 export const WatchLoopEventTypeId: unique symbol = Symbol.for("WatchLoopEvent")
 export type WatchLoopEventTypeId = typeof WatchLoopEventTypeId
@@ -30,6 +31,46 @@ export class WatchItemRetained extends Schema.Class<WatchItemRetained>("WatchIte
   [WatchLoopEventTypeId]: WatchLoopEventTypeId = WatchLoopEventTypeId
 }
 
+export class WatchItemOverBudget extends Schema.Class<WatchItemOverBudget>("WatchItemOverBudget")({
+  _tag: Schema.tag("WatchItemOverBudget"),
+  filename: Schema.String
+}) {
+  [WatchLoopEventTypeId]: WatchLoopEventTypeId = WatchLoopEventTypeId
+}
+
+export class WatchItemFailed extends Schema.Class<WatchItemFailed>("WatchItemFailed")({
+  _tag: Schema.tag("WatchItemFailed"),
+  filename: Schema.String,
+  folder: Schema.String
+}) {
+  [WatchLoopEventTypeId]: WatchLoopEventTypeId = WatchLoopEventTypeId
+}
+
+export class WatchItemMergeFailed extends Schema.Class<WatchItemMergeFailed>("WatchItemMergeFailed")({
+  _tag: Schema.tag("WatchItemMergeFailed"),
+  filename: Schema.String,
+  branch: Schema.String
+}) {
+  [WatchLoopEventTypeId]: WatchLoopEventTypeId = WatchLoopEventTypeId
+}
+
+export class WatchItemErrored extends Schema.Class<WatchItemErrored>("WatchItemErrored")({
+  _tag: Schema.tag("WatchItemErrored"),
+  filename: Schema.String,
+  message: Schema.String
+}) {
+  [WatchLoopEventTypeId]: WatchLoopEventTypeId = WatchLoopEventTypeId
+}
+
+export class WatchBudgetExhausted extends Schema.Class<WatchBudgetExhausted>("WatchBudgetExhausted")({
+  _tag: Schema.tag("WatchBudgetExhausted"),
+  limit: BudgetLimit,
+  max: Schema.Number,
+  spent: Schema.Number
+}) {
+  [WatchLoopEventTypeId]: WatchLoopEventTypeId = WatchLoopEventTypeId
+}
+
 export class WatchSpecIssueWaiting extends Schema.Class<WatchSpecIssueWaiting>("WatchSpecIssueWaiting")({
   _tag: Schema.tag("WatchSpecIssueWaiting")
 }) {
@@ -67,6 +108,11 @@ export type WatchLoopEvent =
   | WatchProcessingItem
   | WatchItemCompleted
   | WatchItemRetained
+  | WatchItemOverBudget
+  | WatchItemFailed
+  | WatchItemMergeFailed
+  | WatchItemErrored
+  | WatchBudgetExhausted
   | WatchSpecIssueWaiting
   | WatchAuditStarted
   | WatchAuditEnded
@@ -75,3 +121,11 @@ export type WatchLoopEvent =
 
 export const isWatchLoopEvent = (event: unknown): event is WatchLoopEvent =>
   typeof event === "object" && event !== null && WatchLoopEventTypeId in event
+
+/**
+ * Event of a loop running in parallel with others, labelled with its backlog item
+ */
+export class WatchItemEvent extends Data.TaggedClass("WatchItemEvent")<{
+  readonly filename: string
+  readonly event: LoopEvent
+}> {}
@@ -1,12 +1,15 @@
-import { Cause, Effect, Hash, Layer, ServiceMap, Data, Stream, FileSystem, Path, Queue, Fiber } from "effect"
+import { Cause, Deferred, Effect, Hash, Option, Layer, ServiceMap, Data, Stream, FileSystem, Path, Queue, Fiber } from "effect"
 import { ChildProcessSpawner } from "effect/unstable/process"
 import { LoopService } from "./LoopService.js"
 import { LlmAgent, type LlmAgentShape } from "./LlmAgent.js"
-import { StorageService, type StorageServiceShape } from "./StorageService.js"
+import { StorageService, type StorageServiceShape, type PhasesConfig, type WatchdogConfig, type RetryConfig, type QuestionsConfig, type CustomMarkerConfig, type AgentName, type BudgetsConfig, type WorktreeConfig, type MaxIterationsPolicy, type CommitStrategy, type CommitGate, type DiagnosticFormat, type CommandConfig, type BudgetConfig } from "./StorageService.js"
+import { AgentLayerMap, resolvePhaseAgent } from "./AgentLayerMap.js"
+import { AgentRecorder } from "./ScriptedLlmAgent.js"
 import { SessionServiceMap } from "./SessionService.js"
-import { isLoopTerminalEvent, type LoopEvent, type LoopTerminalEvent } from "./LoopEvent.js"
+import { isLoopTerminalEvent, type LoopEvent, type LoopTerminalEvent, type UsageTotals, type WorktreeBranchKept } from "./LoopEvent.js"
+import { budgetOverrun, parseItemBudget, remainingBudget, splitBudget, tightestBudget, totalTokens, type BudgetSpent } from "./budgets.js"
 import { auditSystemPrompt, auditPrompt } from "./AgentPrompts.js"
-import { ToBeDiscussed } from "./LlmMarkerEvent.js"
+import { ToBeDiscussed, markerAttributes } from "./LlmMarkerEvent.js"
 import { extractMarkers, type MarkerExtractorConfig } from "./extractMarkers.js"
 import { NotificationService } from "./NotificationService.js"
 import {
@@ -14,6 +17,12 @@ import {
   WatchProcessingItem,
   WatchItemCompleted,
   WatchItemRetained,
+  WatchItemOverBudget,
+  WatchItemFailed,
+  WatchItemMergeFailed,
+  WatchItemErrored,
+  WatchItemEvent,
+  WatchBudgetExhausted,
   WatchSpecIssueWaiting,
   WatchAuditStarted,
   WatchAuditEnded,
@@ -30,16 +39,31 @@ export class WatchError extends Data.TaggedError("WatchError")<{
 export interface WatchRunOptions {
   readonly specsPath: string
   readonly maxIterations?: number
-  readonly setupCommand?: string
-  readonly checkCommand?: string
+  readonly setupCommand?: CommandConfig
+  readonly checkCommand?: CommandConfig
   readonly commit?: boolean
+  readonly commitStrategy?: CommitStrategy
+  readonly commitGate?: CommitGate
+  readonly diagnosticFormats?: ReadonlyArray<DiagnosticFormat>
   readonly push?: string
   readonly audit?: boolean
   readonly notify?: "none" | "osx-notification"
   readonly slowMode?: boolean
+  readonly phases?: PhasesConfig
+  readonly watchdog?: WatchdogConfig
+  readonly retry?: RetryConfig
+  readonly fallbackAgents?: ReadonlyArray<AgentName>
+  readonly markerNudges?: number
+  readonly budgets?: BudgetsConfig
+  readonly worktree?: WorktreeConfig
+  /** Number of backlog items processed at once, each in its own worktree (default 1) */
+  readonly concurrency?: number
+  readonly onMaxIterations?: MaxIterationsPolicy
+  readonly questions?: QuestionsConfig
+  readonly customMarkers?: Readonly<Record<string, CustomMarkerConfig>>
 }
 
-export type WatchEvent = LoopEvent | WatchLoopEvent
+export type WatchEvent = LoopEvent | WatchLoopEvent | WatchItemEvent
 
 export interface WatchServiceShape {
   readonly run: (opts: WatchRunOptions) => Stream.Stream<
@@ -52,39 +76,43 @@ export interface WatchServiceShape {
 export class WatchService extends ServiceMap.Service<WatchService, WatchServiceShape>()("WatchService") {}
 
 /**
- * List files in a directory sorted by filename, excluding hidden files.
+ * List files in a directory sorted by filename, excluding hidden and skipped files.
  * Returns empty array if directory doesn't exist or can't be read.
  */
-const listSorted = (fs: FileSystem.FileSystem, dir: string): Effect.Effect<Array<string>> =>
+const listSorted = (fs: FileSystem.FileSystem, dir: string, skipped: ReadonlySet<string> = new Set()): Effect.Effect<Array<string>> =>
   Effect.gen(function*() {
     const files = yield* fs.readDirectory(dir)
     return files
-      .filter((f) => !f.startsWith("."))
+      .filter((f) => !f.startsWith(".") && !skipped.has(f))
       .sort()
   }).pipe(
     Effect.catch(() => Effect.succeed([]))
   )
 
 /**
- * Count visible (non-hidden) files in a directory.
+ * Count visible (non-hidden, non-skipped) files in a directory.
  * Returns 0 if directory doesn't exist or can't be read.
  */
-const countFiles = (fs: FileSystem.FileSystem, dir: string): Effect.Effect<number> =>
+const countFiles = (fs: FileSystem.FileSystem, dir: string, skipped: ReadonlySet<string>): Effect.Effect<number> =>
   fs.readDirectory(dir).pipe(
-    Effect.map((files) => files.filter((f) => !f.startsWith(".")).length),
+    Effect.map((files) => files.filter((f) => !f.startsWith(".") && !skipped.has(f)).length),
     Effect.catch(() => Effect.succeed(0))
   )
 
 /**
- * Stream that tracks the number of visible files in a directory.
+ * Stream that tracks the number of visible files in a directory (minus the skipped ones).
  * Emits the initial count immediately, then debounced updates on changes.
  * Consecutive identical counts are deduplicated.
  */
-const watchFileCount = (fs: FileSystem.FileSystem, dir: string): Stream.Stream<number, WatchError> => {
-  const initial = Stream.fromEffect(countFiles(fs, dir))
+const watchFileCount = (
+  fs: FileSystem.FileSystem,
+  dir: string,
+  skipped: ReadonlySet<string> = new Set()
+): Stream.Stream<number, WatchError> => {
+  const initial = Stream.fromEffect(countFiles(fs, dir, skipped))
   const onChange = fs.watch(dir).pipe(
     Stream.debounce("30 seconds"),
-    Stream.mapEffect(() => countFiles(fs, dir))
+    Stream.mapEffect(() => countFiles(fs, dir, skipped))
   )
   return Stream.concat(initial, onChange).pipe(
     Stream.changes,
@@ -95,7 +123,7 @@ const watchFileCount = (fs: FileSystem.FileSystem, dir: string): Stream.Stream<n
 const auditMarkerConfig: MarkerExtractorConfig<{
   TO_BE_DISCUSSED: ToBeDiscussed
 }> = {
-  TO_BE_DISCUSSED: (content) => new ToBeDiscussed({ content })
+  TO_BE_DISCUSSED: (content, attributes) => new ToBeDiscussed({ content, ...markerAttributes(attributes) })
 }
 
 /**
@@ -106,7 +134,8 @@ const runAuditAgent = (
   agent: LlmAgentShape,
   storage: StorageServiceShape,
   queue: Queue.Queue<WatchEvent, WatchError | Cause.Done<void>>,
-  specsPath: string
+  specsPath: string,
+  model: string | undefined
 ): Effect.Effect<void, WatchError> =>
   Effect.gen(function*() {
     const auditOpts = { specsPath, tbdPath: storage.tbdDir, memoryPath: storage.memoryPath, cugginoPath: storage.rootDir }
@@ -114,6 +143,8 @@ const runAuditAgent = (
       cwd: storage.cwd,
       prompt: auditPrompt(auditOpts),
       systemPrompt: auditSystemPrompt(auditOpts),
+      model,
+      role: "audit",
       dangerouslySkipPermissions: true
     })
 
@@ -149,7 +180,8 @@ const withAuditDuringIdle = (
   agent: LlmAgentShape,
   storage: StorageServiceShape,
   queue: Queue.Queue<WatchEvent, WatchError | Cause.Done<void>>,
-  specsPath: string
+  specsPath: string,
+  model: string | undefined
 ): Effect.Effect<void, WatchError> => {
   if (!audit) return idleEffect
 
@@ -158,7 +190,7 @@ const withAuditDuringIdle = (
     Effect.forkChild(
       Effect.sleep(1000).pipe(
         Effect.andThen(Queue.offer(queue, new WatchAuditStarted({}))),
-        Effect.andThen(runAuditAgent(agent, storage, queue, specsPath).pipe(Effect.onInterrupt(() => Queue.offer(queue, new WatchAuditInterrupted({}))))),
+        Effect.andThen(runAuditAgent(agent, storage, queue, specsPath, model).pipe(Effect.onInterrupt(() => Queue.offer(queue, new WatchAuditInterrupted({}))))),
         Effect.tap(() => Queue.offer(queue, new WatchAuditEnded({}))),
       )
     ),
@@ -177,20 +209,196 @@ export const WatchServiceLayer = Layer.effect(
   Effect.gen(function*() {
     const loop = yield* LoopService
     const agent = yield* LlmAgent
+    const agentMap = yield* AgentLayerMap
     const storage = yield* StorageService
     const fs = yield* FileSystem.FileSystem
     const pathService = yield* Path.Path
     const notification = yield* NotificationService
+    const recorder = yield* Effect.serviceOption(AgentRecorder)
 
     return {
       run: (opts) =>
         Stream.callback<WatchEvent, WatchError, ChildProcessSpawner.ChildProcessSpawner | SessionServiceMap | StorageService | FileSystem.FileSystem>((queue) =>
           Effect.gen(function*() {
+            const auditAgent = yield* resolvePhaseAgent(opts.phases?.audit, agent, recorder).pipe(
+              Effect.provideService(AgentLayerMap, agentMap)
+            )
+
+            // Session spending, and the backlog items that are kept but not picked again:
+            // those that exceeded their budget and those whose loop failed
+            const startedAt = Date.now()
+            let sessionUsage: { tokens: number; costUsd: number } = { tokens: 0, costUsd: 0 }
+            const skipped = new Set<string>()
+            const sessionSpent = (): BudgetSpent => ({ seconds: (Date.now() - startedAt) / 1000, ...sessionUsage })
+            const addSessionUsage = (usage: UsageTotals) => {
+              sessionUsage = {
+                tokens: sessionUsage.tokens + totalTokens(usage),
+                costUsd: sessionUsage.costUsd + (usage.costUsd ?? 0)
+              }
+            }
+
+            // Parallel loops need worktree isolation, and merge their approved branches unless configured otherwise;
+            // their events are labelled with their item
+            const concurrency = Math.max(1, Math.floor(opts.concurrency ?? 1))
+            const parallel = concurrency > 1
+            const worktree: WorktreeConfig | undefined = parallel ? { onApproval: "merge", ...opts.worktree } : opts.worktree
+            const onApproval = worktree?.onApproval ?? "branch"
+
+            // The running loops, by item, with the budget each was handed and what it spent so far:
+            // the session budget is shared out between them, net of what they may still spend
+            const running = new Map<string, { budget: BudgetConfig; tokens: number; costUsd: number }>()
+            const committedSpent = (): BudgetSpent => {
+              const spent = sessionSpent()
+              let tokens = spent.tokens
+              let costUsd = spent.costUsd
+              for (const item of running.values()) {
+                tokens += Math.max(0, (item.budget.maxTokens ?? 0) - item.tokens)
+                costUsd += Math.max(0, (item.budget.maxCostUsd ?? 0) - item.costUsd)
+              }
+              return { seconds: spent.seconds, tokens, costUsd }
+            }
+
+            /**
+             * Put an item whose approved branch could not be merged back into the backlog,
+             * with a note for the next loop
+             */
+            const returnWithNote = (filePath: string, kept: WorktreeBranchKept) =>
+              fs.writeFileString(
+                filePath,
+                `\n\n> **Note from cuggino:** this item was approved on branch \`${kept.branch}\`, but merging it failed` +
+                  ` (${kept.reason.split("\n")[0]}). The branch was kept for reference.` +
+                  ` Implement the item again on top of the current code.\n`,
+                { flag: "a" }
+              )
+
+            /**
+             * Run the coding loop on a backlog item, forwarding its events, and handle its outcome.
+             * `share` is the item's share of the session budget.
+             */
+            const runItem = (filename: string, share: BudgetConfig, beforeMerge: Effect.Effect<void> | undefined) =>
+              Effect.gen(function*() {
+                const filePath = pathService.join(storage.backlogDir, filename)
+                // Where the item goes, with the session's plan and review, if the loop hits max iterations
+                const failedDir = pathService.join(storage.failedDir, filename.replace(/\.[^.]*$/, ""))
+                yield* Queue.offer(queue, new WatchProcessingItem({ filename }))
+
+                // Read content and compute hash before running the loop
+                const fileContent = yield* fs.readFileString(filePath)
+                const originalHash = Hash.string(fileContent)
+
+                // The item's front matter overrides the loop budget; the loop never gets more than its share of the session budget
+                const budget = tightestBudget({ ...opts.budgets?.loop, ...parseItemBudget(fileContent) }, share)
+                const spending = { budget, tokens: 0, costUsd: 0 }
+                running.set(filename, spending)
+
+                // Continue an unfinished loop on this item (e.g. after a crash) instead of starting over
+                const focus = `@${filePath}`
+                const resume = (yield* storage.readCheckpoints()).filter((checkpoint) => checkpoint.focus === focus).pop()
+
+                // Run the coding loop, forwarding all events to the queue, and capture terminal event
+                const terminalEvents: Array<LoopTerminalEvent> = []
+                let keptBranch: WorktreeBranchKept | undefined
+
+                yield* loop.run({
+                  focus,
+                  specsPath: opts.specsPath,
+                  cwd: storage.cwd,
+                  maxIterations: opts.maxIterations,
+                  setupCommand: opts.setupCommand,
+                  checkCommand: opts.checkCommand,
+                  commit: opts.commit,
+                  commitStrategy: opts.commitStrategy,
+                  commitGate: opts.commitGate,
+                  diagnosticFormats: opts.diagnosticFormats,
+                  push: opts.push,
+                  slowMode: opts.slowMode,
+                  phases: opts.phases,
+                  watchdog: opts.watchdog,
+                  retry: opts.retry,
+                  fallbackAgents: opts.fallbackAgents,
+                  markerNudges: opts.markerNudges,
+                  questions: opts.questions,
+                  customMarkers: opts.customMarkers,
+                  budget,
+                  worktree,
+                  beforeMerge,
+                  onMaxIterations: opts.onMaxIterations,
+                  failedDir,
+                  resume
+                }).pipe(
+                  Stream.runForEach((event) =>
+                    Effect.gen(function*() {
+                      yield* Queue.offer(queue, parallel ? new WatchItemEvent({ filename, event }) : event)
+                      if(isLoopTerminalEvent(event)) {
+                        terminalEvents.push(event)
+                      }
+                      if (event._tag === "LoopUsage") {
+                        addSessionUsage(event.usage)
+                        spending.tokens += totalTokens(event.usage)
+                        spending.costUsd += event.usage.costUsd ?? 0
+                      }
+                      if (event._tag === "WorktreeBranchKept") {
+                        keptBranch = event
+                      }
+                    })
+                  )
+                )
+
+                const outcome = terminalEvents[0] as LoopTerminalEvent | undefined
+                if (!outcome) return outcome
+                switch (outcome._tag) {
+                  case "LoopApproved":
+                  case "LoopMaxIterations": {
+                    // An approved branch that was meant to be merged but was kept failed to merge
+                    if (outcome._tag === "LoopApproved" && keptBranch !== undefined && onApproval !== "branch") {
+                      yield* returnWithNote(filePath, keptBranch)
+                      yield* Queue.offer(queue, new WatchItemMergeFailed({ filename, branch: keptBranch.branch }))
+                      break
+                    }
+                    // Re-read file and compare hash before deleting (or, after max iterations, moving to failed/)
+                    const currentContent = yield* fs.readFileString(filePath).pipe(
+                      Effect.map((content) => ({ exists: true as const, content })),
+                      Effect.catch(() => Effect.succeed({ exists: false as const, content: "" }))
+                    )
+                    if (currentContent.exists) {
+                      const currentHash = Hash.string(currentContent.content)
+                      if (currentHash === originalHash && outcome._tag === "LoopMaxIterations") {
+                        yield* fs.makeDirectory(failedDir, { recursive: true })
+                        yield* fs.rename(filePath, pathService.join(failedDir, filename))
+                        yield* Queue.offer(queue, new WatchItemFailed({ filename, folder: pathService.relative(storage.cwd, failedDir) }))
+                      } else if (currentHash === originalHash) {
+                        yield* fs.remove(filePath)
+                        yield* Queue.offer(queue, new WatchItemCompleted({ filename }))
+                      } else {
+                        yield* Queue.offer(queue, new WatchItemRetained({ filename }))
+                      }
+                    }
+                    break
+                  }
+                  case "LoopBudgetExceeded":
+                    // Keep the item, but do not pick it again in this watch session
+                    skipped.add(filename)
+                    yield* Queue.offer(queue, new WatchItemOverBudget({ filename }))
+                    break
+                  case "LoopSpecIssue":
+                    break
+                }
+                return outcome
+              })
+
             while (true) {
+              // Stop the watch session once its budget is exhausted
+              const sessionOverrun = budgetOverrun(opts.budgets?.watch, sessionSpent())
+              if (Option.isSome(sessionOverrun)) {
+                yield* Queue.offer(queue, new WatchBudgetExhausted(sessionOverrun.value))
+                yield* Queue.end(queue)
+                return
+              }
+
               // Waiting phase: combine file count streams and wait until ready
               const combined = Stream.zipLatest(
                 watchFileCount(fs, storage.specIssuesDir),
-                watchFileCount(fs, storage.backlogDir)
+                watchFileCount(fs, storage.backlogDir, skipped)
               )
 
               const waitingPhase = Effect.gen(function*() {
@@ -234,75 +442,60 @@ export const WatchServiceLayer = Layer.effect(
               yield* withAuditDuringIdle(
                 waitingPhase,
                 opts.audit ?? false,
-                agent,
+                auditAgent,
                 storage,
                 queue,
-                opts.specsPath
-              )
-
-              // Processing phase: pick first backlog file
-              const backlogFiles = yield* listSorted(fs, storage.backlogDir)
-              if (backlogFiles.length === 0) continue
-
-              const firstFile = backlogFiles[0]
-              const filePath = pathService.join(storage.backlogDir, firstFile)
-
-              yield* Queue.offer(queue, new WatchProcessingItem({ filename: firstFile }))
-
-              // Read content and compute hash before running the loop
-              const fileContent = yield* fs.readFileString(filePath)
-              const originalHash = Hash.string(fileContent)
-
-              // Run the coding loop, forwarding all events to the queue, and capture terminal event
-              const terminalEvents: Array<LoopTerminalEvent> = []
-
-              yield* loop.run({
-                focus: `@${filePath}`,
-                specsPath: opts.specsPath,
-                cwd: storage.cwd,
-                maxIterations: opts.maxIterations,
-                setupCommand: opts.setupCommand,
-                checkCommand: opts.checkCommand,
-                commit: opts.commit,
-                push: opts.push,
-                slowMode: opts.slowMode
-              }).pipe(
-                Stream.runForEach((event) =>
-                  Effect.gen(function*() {
-                    yield* Queue.offer(queue, event)
-                    if(isLoopTerminalEvent(event)) {
-                      terminalEvents.push(event)
-                    }
-                  })
-                )
+                opts.specsPath,
+                opts.phases?.audit?.model
               )
 
-              const outcome = terminalEvents[0] as LoopTerminalEvent | undefined
-
-              // Handle outcome
-              if (outcome) {
-                switch (outcome._tag) {
-                  case "LoopApproved":
-                  case "LoopMaxIterations": {
-                    // Re-read file and compare hash before deleting
-                    const currentContent = yield* fs.readFileString(filePath).pipe(
-                      Effect.map((content) => ({ exists: true as const, content })),
-                      Effect.catch(() => Effect.succeed({ exists: false as const, content: "" }))
+              // Processing phase: keep up to `concurrency` loops running, starting the loop of the next backlog item
+              // (in filename order) as soon as one ends. No new item is picked once a loop raised a spec issue or the
+              // session budget is spent; the phase ends when no loop is running.
+              const slotFreed = yield* Queue.unbounded<void>()
+              // Approved branches are merged in the order the items were picked: each loop waits for the previous one to end
+              let previousEnded: Deferred.Deferred<void> | undefined
+              let specIssue = false
+              while (true) {
+                if (!specIssue && Option.isNone(budgetOverrun(opts.budgets?.watch, sessionSpent()))) {
+                  const backlogFiles = (yield* listSorted(fs, storage.backlogDir, skipped)).filter((file) => !running.has(file))
+                  for (const filename of backlogFiles.slice(0, concurrency - running.size)) {
+                    const share = splitBudget(remainingBudget(opts.budgets?.watch, committedSpent()), concurrency - running.size)
+                    const ended = yield* Deferred.make<void>()
+                    const beforeMerge = previousEnded === undefined ? undefined : Deferred.await(previousEnded)
+                    previousEnded = ended
+                    running.set(filename, { budget: share, tokens: 0, costUsd: 0 })
+                    yield* Effect.forkChild(
+                      runItem(filename, share, beforeMerge).pipe(
+                        Effect.tap((outcome) =>
+                          Effect.sync(() => {
+                            if (outcome?._tag === "LoopSpecIssue") specIssue = true
+                          })
+                        ),
+                        // A failed loop does not stop the others: its item is kept, but not picked again
+                        Effect.catchCauseIf(
+                          (cause) => !Cause.hasInterruptsOnly(cause),
+                          (cause) => {
+                            const error = Cause.squash(cause)
+                            skipped.add(filename)
+                            return Queue.offer(queue, new WatchItemErrored({
+                              filename,
+                              message: error instanceof Error ? error.message : String(error)
+                            }))
+                          }
+                        ),
+                        Effect.ensuring(
+                          Effect.suspend(() => {
+                            running.delete(filename)
+                            return Deferred.succeed(ended, undefined).pipe(Effect.andThen(Queue.offer(slotFreed, undefined)))
+                          })
+                        )
+                      )
                     )
-                    if (currentContent.exists) {
-                      const currentHash = Hash.string(currentContent.content)
-                      if (currentHash === originalHash) {
-                        yield* fs.remove(filePath)
-                        yield* Queue.offer(queue, new WatchItemCompleted({ filename: firstFile }))
-                      } else {
-                        yield* Queue.offer(queue, new WatchItemRetained({ filename: firstFile }))
-                      }
-                    }
-                    break
                   }
-                  case "LoopSpecIssue":
-                    break
                 }
+                if (running.size === 0) break
+                yield* Queue.take(slotFreed)
               }
             }
           }).pipe(
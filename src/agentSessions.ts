@@ -0,0 +1,82 @@
+import { Effect, FileSystem } from "effect"
+import { LlmSessionError } from "./LlmAgentEvent.js"
+import type { LlmAgentSpawnOptions } from "./LlmAgent.js"
+import type { AgentName } from "./StorageService.js"
+
+/**
+ * Backend session ids, keyed by agent and by cuggino session id:
+ * `{ "codex": { "<sessionId>": "<thread id>" } }`
+ */
+type AgentSessionsFile = Partial<Record<AgentName, Record<string, string>>>
+
+/**
+ * The backend session ids recorded in `.cuggino/agent-sessions.json`.
+ * Never fail: an unreadable file has no sessions, and write errors are ignored
+ * (the next resume starts a new session).
+ */
+export interface AgentSessions {
+  /** Look up the backend's own session id recorded for a cuggino session id */
+  readonly read: (agent: AgentName, sessionId: string) => Effect.Effect<string | undefined>
+  /** Record the backend's own session id for a cuggino session id, so that `resume` continues the right session across restarts */
+  readonly write: (agent: AgentName, sessionId: string, backendId: string) => Effect.Effect<void>
+  /** Forget the backend sessions of cuggino session ids that will not be resumed */
+  readonly remove: (sessionIds: ReadonlyArray<string>) => Effect.Effect<void>
+}
+
+// One read-modify-write of the file at a time, across providers and concurrent loops
+const lock = Effect.makeSemaphoreUnsafe(1)
+
+/**
+ * Access the agent sessions file at `filePath`
+ */
+export const makeAgentSessions = (fs: FileSystem.FileSystem, filePath: string): AgentSessions => {
+  const readFile = fs.readFileString(filePath).pipe(
+    Effect.map((content) => JSON.parse(content) as AgentSessionsFile),
+    Effect.catchCause(() => Effect.succeed<AgentSessionsFile>({}))
+  )
+
+  const update = (f: (sessions: AgentSessionsFile) => AgentSessionsFile) =>
+    lock.withPermits(1)(
+      readFile.pipe(
+        Effect.flatMap((sessions) => fs.writeFileString(filePath, JSON.stringify(f(sessions), null, 2) + "\n")),
+        Effect.ignore
+      )
+    )
+
+  return {
+    read: (agent, sessionId) => readFile.pipe(Effect.map((sessions) => sessions[agent]?.[sessionId])),
+    write: (agent, sessionId, backendId) =>
+      update((sessions) => ({ ...sessions, [agent]: { ...sessions[agent], [sessionId]: backendId } })),
+    remove: (sessionIds) =>
+      sessionIds.length === 0 ? Effect.void : update((sessions) =>
+        Object.fromEntries(
+          Object.entries(sessions).map(([agent, ids]) => [
+            agent,
+            Object.fromEntries(Object.entries(ids ?? {}).filter(([sessionId]) => !sessionIds.includes(sessionId)))
+          ])
+        )
+      )
+  }
+}
+
+/**
+ * The backend session id to continue for a spawn, or undefined to start a new session.
+ * With `resume` but no backend session on record (the first run failed before the backend reported
+ * its id, or the file was lost), fail with `sessionNotFound`: the follow-up prompt alone, without
+ * the system prompt and the earlier turns, must not start a new session.
+ */
+export const resumedSessionId = (
+  sessions: AgentSessions,
+  agent: AgentName,
+  options: LlmAgentSpawnOptions
+): Effect.Effect<string | undefined, LlmSessionError> => {
+  if (!options.resume || options.sessionId === undefined) return Effect.succeed(undefined)
+  const sessionId = options.sessionId
+  return sessions.read(agent, sessionId).pipe(
+    Effect.flatMap((backendId) =>
+      backendId !== undefined
+        ? Effect.succeed(backendId)
+        : Effect.fail(new LlmSessionError({ message: `No ${agent} session on record to resume for session ${sessionId}`, sessionNotFound: true }))
+    )
+  )
+}
@@ -0,0 +1,117 @@
+import { Option } from "effect"
+import type { BudgetLimit, UsageTotals } from "./LoopEvent.js"
+import type { BudgetConfig } from "./StorageService.js"
+
+/**
+ * What a loop run or a watch session has spent so far
+ */
+export interface BudgetSpent {
+  readonly seconds: number
+  readonly tokens: number
+  readonly costUsd: number
+}
+
+/**
+ * A budget limit that has been reached
+ */
+export interface BudgetOverrun {
+  readonly limit: BudgetLimit
+  readonly max: number
+  readonly spent: number
+}
+
+/**
+ * Total tokens of a usage report, cache tokens included
+ */
+export const totalTokens = (usage: UsageTotals): number =>
+  usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens
+
+/**
+ * Spending of a run that started at `startedAt` (epoch milliseconds) with the given usage totals
+ */
+export const budgetSpent = (startedAt: number, usage: UsageTotals | null): BudgetSpent => ({
+  seconds: (Date.now() - startedAt) / 1000,
+  tokens: usage === null ? 0 : totalTokens(usage),
+  costUsd: usage?.costUsd ?? 0
+})
+
+/**
+ * The first limit of the budget that the spending has reached, if any
+ */
+export const budgetOverrun = (budget: BudgetConfig | undefined, spent: BudgetSpent): Option.Option<BudgetOverrun> => {
+  if (budget?.maxDuration !== undefined && spent.seconds >= budget.maxDuration) {
+    return Option.some({ limit: "duration", max: budget.maxDuration, spent: Math.round(spent.seconds) })
+  }
+  if (budget?.maxTokens !== undefined && spent.tokens >= budget.maxTokens) {
+    return Option.some({ limit: "tokens", max: budget.maxTokens, spent: spent.tokens })
+  }
+  if (budget?.maxCostUsd !== undefined && spent.costUsd >= budget.maxCostUsd) {
+    return Option.some({ limit: "cost", max: budget.maxCostUsd, spent: spent.costUsd })
+  }
+  return Option.none()
+}
+
+/**
+ * What is left of a budget after the spending (limits that are not set stay unset)
+ */
+export const remainingBudget = (budget: BudgetConfig | undefined, spent: BudgetSpent): BudgetConfig => ({
+  ...(budget?.maxDuration !== undefined ? { maxDuration: Math.max(0, budget.maxDuration - spent.seconds) } : {}),
+  ...(budget?.maxTokens !== undefined ? { maxTokens: Math.max(0, budget.maxTokens - spent.tokens) } : {}),
+  ...(budget?.maxCostUsd !== undefined ? { maxCostUsd: Math.max(0, budget.maxCostUsd - spent.costUsd) } : {})
+})
+
+/**
+ * An equal share of a budget for each of `parts` loops running side by side.
+ * The duration limit is not divided, since the loops share the wall clock.
+ */
+export const splitBudget = (budget: BudgetConfig, parts: number): BudgetConfig => ({
+  ...budget,
+  ...(budget.maxTokens !== undefined ? { maxTokens: budget.maxTokens / parts } : {}),
+  ...(budget.maxCostUsd !== undefined ? { maxCostUsd: budget.maxCostUsd / parts } : {})
+})
+
+const tighter = (a: number | undefined, b: number | undefined): number | undefined =>
+  a === undefined ? b : b === undefined ? a : Math.min(a, b)
+
+/**
+ * The tighter of two budgets, limit by limit
+ */
+export const tightestBudget = (a: BudgetConfig, b: BudgetConfig): BudgetConfig => {
+  const maxDuration = tighter(a.maxDuration, b.maxDuration)
+  const maxTokens = tighter(a.maxTokens, b.maxTokens)
+  const maxCostUsd = tighter(a.maxCostUsd, b.maxCostUsd)
+  return {
+    ...(maxDuration !== undefined ? { maxDuration } : {}),
+    ...(maxTokens !== undefined ? { maxTokens } : {}),
+    ...(maxCostUsd !== undefined ? { maxCostUsd } : {})
+  }
+}
+
+const budgetKeys: ReadonlyArray<keyof BudgetConfig> = ["maxDuration", "maxTokens", "maxCostUsd"]
+
+/**
+ * Budget overrides from the front matter of a backlog item:
+ *
+ * ```
+ * ---
+ * maxCostUsd: 5
+ * ---
+ * ```
+ *
+ * Unknown keys and non-numeric values are ignored.
+ */
+export const parseItemBudget = (content: string): BudgetConfig => {
+  const frontMatter = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/.exec(content)
+  if (frontMatter === null) return {}
+  const budget: { -readonly [K in keyof BudgetConfig]: number } = {}
+  for (const line of frontMatter[1].split(/\r?\n/)) {
+    const match = /^\s*(\w+)\s*:\s*(.+?)\s*$/.exec(line)
+    if (match === null) continue
+    const key = budgetKeys.find((k) => k === match[1])
+    const value = Number(match[2])
+    if (key !== undefined && match[2] !== "" && Number.isFinite(value)) {
+      budget[key] = value
+    }
+  }
+  return budget
+}
@@ -0,0 +1,69 @@
+import { DateTime } from "effect"
+import { LlmSessionError } from "./LlmAgentEvent.js"
+
+// HTTP statuses worth retrying: rate limited, overloaded, bad gateway, unavailable, gateway timeout
+const TRANSIENT_STATUSES: ReadonlyArray<number> = [429, 502, 503, 504, 529]
+
+// Messages that indicate a temporary provider or network condition.
+// Status codes and timeouts only count in the wording of an HTTP or network error,
+// so numbers and words from file contents or test names quoted in a message do not match.
+const TRANSIENT_PATTERNS: ReadonlyArray<RegExp> = [
+  /rate[ _-]?limit/i,
+  /usage limit/i,
+  /too many requests/i,
+  /\b(?:status(?: code)?|http(?:\/[\d.]+)?|api error|error code)\b[\s:="]*(?:429|529|50[234])\b/i,
+  /"(?:status|statusCode|code)"\s*:\s*"?(?:429|529|50[234])\b/,
+  /overloaded/i,
+  /service unavailable/i,
+  /bad gateway/i,
+  /gateway timeout/i,
+  /\b(?:request|connection|connect|socket|read|upstream|network|stream)\s+(?:has\s+)?timed?[ -]?out\b/i,
+  /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|ENETUNREACH|EPIPE/,
+  /socket hang up/i,
+  /network error/i,
+  /fetch failed/i
+]
+
+/**
+ * Extract the time a rate limit resets from a provider error message, if present.
+ *
+ * Recognized forms:
+ * - `...usage limit reached|1760000000` (Claude, epoch seconds)
+ * - `try again in 20s`, `retry after 2 minutes`, `try again in 1m30s`
+ */
+const parseResetAt = (message: string, now: DateTime.Utc): DateTime.Utc | undefined => {
+  const epoch = message.match(/\|(\d{10})\b/)
+  if (epoch) {
+    return DateTime.makeUnsafe(Number(epoch[1]) * 1000)
+  }
+
+  const relative = message.match(
+    /(?:try again|retry)(?: after| in)+\s+(?:(\d+(?:\.\d+)?)\s*(?:m|min|minutes?)\s*)?(?:(\d+(?:\.\d+)?)\s*(?:s|sec|seconds?)\b)?/i
+  )
+  if (relative && (relative[1] !== undefined || relative[2] !== undefined)) {
+    const seconds = Number(relative[1] ?? 0) * 60 + Number(relative[2] ?? 0)
+    return DateTime.makeUnsafe(DateTime.toEpochMillis(now) + Math.ceil(seconds * 1000))
+  }
+
+  return undefined
+}
+
+/**
+ * Build an LlmSessionError from a provider error message, classifying it as
+ * transient (rate limits, overload, network blips — worth retrying) or fatal.
+ * A `retryable` hint or HTTP `status` from the provider takes precedence over message matching.
+ */
+export const classifySessionError = (
+  message: string,
+  hints: { readonly retryable?: boolean | undefined; readonly status?: number | undefined } = {}
+): LlmSessionError => {
+  const transient = hints.retryable ??
+    (hints.status !== undefined
+      ? TRANSIENT_STATUSES.includes(hints.status)
+      : TRANSIENT_PATTERNS.some((pattern) => pattern.test(message)))
+  if (!transient) {
+    return new LlmSessionError({ message, transient: false })
+  }
+  const resetAt = parseResetAt(message, DateTime.nowUnsafe())
+  return new LlmSessionError({ message, transient: true, ...(resetAt ? { resetAt } : {}) })
+}
@@ -1,29 +1,37 @@
-import { Effect, Layer, Stream } from "effect"
+import { Effect, Layer, Option, Stream } from "effect"
 import { Command, Flag } from "effect/unstable/cli"
 import { LoopService, LoopServiceLayer } from "../LoopService.js"
-import { StorageService } from "../StorageService.js"
+import { StorageService, type LoopCheckpoint } from "../StorageService.js"
 import { withCliOutput } from "../CliOutput.js"
 import { isLoopTerminalEvent, type LoopTerminalEvent } from "../LoopEvent.js"
 import { CliError } from "./CliError.js"
 import { AgentLayerMap } from "../AgentLayerMap.js"
+import { AgentRecorderLayer, RecordingLlmAgentLayer } from "../ScriptedLlmAgent.js"
 
 export const runCommand = Command.make(
   "run",
   {
     focus: Flag.string("focus").pipe(
       Flag.withAlias("f"),
+      Flag.optional,
       Flag.withDescription("The focus area to work on (e.g., 'Implement user authentication')")
     ),
+    resume: Flag.boolean("resume").pipe(
+      Flag.withDescription("Resume the most recent unfinished loop (with --focus, the most recent one on that focus)")
+    ),
     verbose: Flag.boolean("verbose").pipe(
       Flag.withDescription("Enable verbose output")
     ),
-    agent: Flag.choice("agent", ["claude", "codex", "opencode"]).pipe(
+    agent: Flag.choice("agent", ["claude", "codex", "opencode", "gemini", "custom", "scripted"]).pipe(
       Flag.withAlias("a"),
       Flag.withDefault("claude"),
       Flag.withDescription("LLM provider to use")
     ),
     slow: Flag.boolean("slow").pipe(
       Flag.withDescription("Run the loop in slow mode (plan → implement → review each iteration)")
+    ),
+    record: Flag.boolean("record").pipe(
+      Flag.withDescription("Record agent sessions as scripted-agent fixtures in .cuggino/fixtures")
     )
   },
   (args) =>
@@ -31,16 +39,48 @@ export const runCommand = Command.make(
       const storage = yield* StorageService
       const config = yield* storage.readConfig()
       const loop = yield* LoopService
+
+      // Find the checkpoint of the loop to resume
+      let resume: LoopCheckpoint | undefined
+      if (args.resume) {
+        const checkpoints = (yield* storage.readCheckpoints()).filter((checkpoint) =>
+          Option.isNone(args.focus) || checkpoint.focus === args.focus.value
+        )
+        resume = checkpoints[checkpoints.length - 1]
+        if (resume === undefined) {
+          return yield* new CliError({ message: "No unfinished loop to resume" })
+        }
+      }
+
+      const focus = resume?.focus ?? Option.getOrUndefined(args.focus)
+      if (focus === undefined) {
+        return yield* new CliError({ message: "--focus is required unless --resume is given" })
+      }
+
       const stream = loop.run({
-        focus: args.focus,
+        focus,
         specsPath: config.specsPath,
         cwd: storage.cwd,
         maxIterations: config.maxIterations,
         setupCommand: config.setupCommand,
         checkCommand: config.checkCommand,
         commit: config.commit,
+        commitStrategy: config.commitStrategy,
+        commitGate: config.commitGate,
+        diagnosticFormats: config.diagnosticFormats,
         push: config.push,
-        slowMode: args.slow
+        slowMode: args.slow,
+        phases: config.phases,
+        watchdog: config.watchdog,
+        retry: config.retry,
+        fallbackAgents: config.fallbackAgents,
+        markerNudges: config.markerNudges,
+        questions: config.questions,
+        customMarkers: config.customMarkers,
+        budget: config.budgets?.loop,
+        worktree: config.worktree,
+        onMaxIterations: config.onMaxIterations,
+        resume
       })
 
       const terminalEvents: Array<LoopTerminalEvent> = []
@@ -64,13 +104,22 @@ export const runCommand = Command.make(
             return yield* new CliError({ message: "Loop ended with a spec issue" })
           case "LoopMaxIterations":
             return yield* new CliError({ message: "Loop reached max iterations without approval" })
+          case "LoopBudgetExceeded":
+            return yield* new CliError({ message: "Loop exceeded its budget without approval" })
         }
       }
     })
 ).pipe(
   Command.provide((input) =>
     LoopServiceLayer.pipe(
-      Layer.provideMerge(AgentLayerMap.get(input.agent))
+      Layer.provideMerge(
+        input.record
+          ? RecordingLlmAgentLayer.pipe(
+            Layer.provideMerge(AgentRecorderLayer),
+            Layer.provide(AgentLayerMap.get(input.agent))
+          )
+          : AgentLayerMap.get(input.agent)
+      )
     )
   )
 )
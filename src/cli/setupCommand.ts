@@ -1,7 +1,8 @@
 import { Effect } from "effect"
 import { Command, Flag, Prompt } from "effect/unstable/cli"
-import { StorageService } from "../StorageService.js"
+import { StorageService, type CugginoConfig } from "../StorageService.js"
 import { AgentLayerMap } from "../AgentLayerMap.js"
+import { describeCommand } from "../commandSteps.js"
 
 export const setupCommand = Command.make(
   "setup",
@@ -11,6 +12,9 @@ export const setupCommand = Command.make(
     Effect.gen(function*() {
       const storage = yield* StorageService
       const existingConfig = yield* storage.readConfig()
+      // Named steps are edited by hand; an empty answer keeps them
+      const keepSetupSteps = Array.isArray(existingConfig.setupCommand)
+      const keepCheckSteps = Array.isArray(existingConfig.checkCommand)
       const result = yield* Prompt.all({
         specsPath: Prompt.text({
           message: "Path to the specifications folder",
@@ -21,12 +25,12 @@ export const setupCommand = Command.make(
           min: 1
         }),
         setupCommand: Prompt.text({
-          message: "Setup command (install deps, build, etc.) — leave empty to skip",
-          default: existingConfig.setupCommand ?? ""
+          message: `Setup command (install deps, build, etc.) — leave empty to ${keepSetupSteps ? "keep the configured steps" : "skip"}`,
+          default: typeof existingConfig.setupCommand === "string" ? existingConfig.setupCommand : ""
         }),
         checkCommand: Prompt.text({
-          message: "Check command (linting, type checking, tests) — leave empty to skip",
-          default: existingConfig.checkCommand ?? ""
+          message: `Check command (linting, type checking, tests) — leave empty to ${keepCheckSteps ? "keep the configured steps" : "skip"}`,
+          default: typeof existingConfig.checkCommand === "string" ? existingConfig.checkCommand : ""
         }),
         commit: Prompt.toggle({
           message: "Auto-commit after each implementation step",
@@ -49,10 +53,27 @@ export const setupCommand = Command.make(
         })
       }).pipe(Prompt.run)
       const { setupCommand, checkCommand, push, ...rest } = result
-      const config = {
+      // Settings the wizard does not prompt for are edited by hand in .cuggino.json — keep them
+      const {
+        specsPath: _specsPath,
+        maxIterations: _maxIterations,
+        setupCommand: _setupCommand,
+        checkCommand: _checkCommand,
+        commit: _commit,
+        push: _push,
+        audit: _audit,
+        notify: _notify,
+        ...handEdited
+      } = existingConfig
+      const config: CugginoConfig = {
         ...rest,
-        ...(setupCommand.trim() !== "" ? { setupCommand: setupCommand.trim() } : {}),
-        ...(checkCommand.trim() !== "" ? { checkCommand: checkCommand.trim() } : {}),
+        ...handEdited,
+        ...(setupCommand.trim() !== ""
+          ? { setupCommand: setupCommand.trim() }
+          : keepSetupSteps && existingConfig.setupCommand !== undefined ? { setupCommand: existingConfig.setupCommand } : {}),
+        ...(checkCommand.trim() !== ""
+          ? { checkCommand: checkCommand.trim() }
+          : keepCheckSteps && existingConfig.checkCommand !== undefined ? { checkCommand: existingConfig.checkCommand } : {}),
         ...(push.trim() !== "" ? { push: push.trim() } : {})
       }
       yield* storage.writeConfig(config)
@@ -60,8 +81,8 @@ export const setupCommand = Command.make(
         process.stdout.write("\nConfiguration saved to .cuggino.json:\n\n")
         process.stdout.write(`  specsPath:      ${config.specsPath}\n`)
         process.stdout.write(`  maxIterations:  ${config.maxIterations}\n`)
-        process.stdout.write(`  setupCommand:   ${config.setupCommand || "(none)"}\n`)
-        process.stdout.write(`  checkCommand:   ${config.checkCommand || "(none)"}\n`)
+        process.stdout.write(`  setupCommand:   ${describeCommand(config.setupCommand) || "(none)"}\n`)
+        process.stdout.write(`  checkCommand:   ${describeCommand(config.checkCommand) || "(none)"}\n`)
         process.stdout.write(`  commit:         ${config.commit}\n`)
         process.stdout.write(`  push:           ${config.push || "(none)"}\n`)
         process.stdout.write(`  audit:          ${config.audit}\n`)
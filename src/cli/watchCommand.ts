@@ -4,6 +4,7 @@ import { WatchService, WatchServiceLayer } from "../WatchService.js"
 import { StorageService } from "../StorageService.js"
 import { withCliOutput } from "../CliOutput.js"
 import { AgentLayerMap } from "../AgentLayerMap.js"
+import { AgentRecorderLayer, RecordingLlmAgentLayer } from "../ScriptedLlmAgent.js"
 import { LoopServiceLayer } from "../LoopService.js"
 
 export const watchCommand = Command.make(
@@ -12,13 +13,16 @@ export const watchCommand = Command.make(
     verbose: Flag.boolean("verbose").pipe(
       Flag.withDescription("Enable verbose output")
     ),
-    agent: Flag.choice("agent", ["claude", "codex", "opencode"]).pipe(
+    agent: Flag.choice("agent", ["claude", "codex", "opencode", "gemini", "custom", "scripted"]).pipe(
       Flag.withAlias("a"),
       Flag.withDefault("claude"),
       Flag.withDescription("LLM provider to use")
     ),
     slow: Flag.boolean("slow").pipe(
       Flag.withDescription("Run the loop in slow mode (plan → implement → review each iteration)")
+    ),
+    record: Flag.boolean("record").pipe(
+      Flag.withDescription("Record agent sessions as scripted-agent fixtures in .cuggino/fixtures")
     )
   },
   (args) =>
@@ -32,10 +36,24 @@ export const watchCommand = Command.make(
         setupCommand: config.setupCommand,
         checkCommand: config.checkCommand,
         commit: config.commit,
+        commitStrategy: config.commitStrategy,
+        commitGate: config.commitGate,
+        diagnosticFormats: config.diagnosticFormats,
         push: config.push,
         audit: config.audit,
         notify: config.notify,
-        slowMode: args.slow
+        slowMode: args.slow,
+        phases: config.phases,
+        watchdog: config.watchdog,
+        retry: config.retry,
+        fallbackAgents: config.fallbackAgents,
+        markerNudges: config.markerNudges,
+        budgets: config.budgets,
+        worktree: config.worktree,
+        concurrency: config.concurrency,
+        onMaxIterations: config.onMaxIterations,
+        questions: config.questions,
+        customMarkers: config.customMarkers
       }).pipe(
         (s) => withCliOutput(s, args.verbose),
         Stream.runDrain
@@ -45,7 +63,14 @@ export const watchCommand = Command.make(
   Command.provide((input) =>
     WatchServiceLayer.pipe(
       Layer.provideMerge(LoopServiceLayer),
-      Layer.provideMerge(AgentLayerMap.get(input.agent))
+      Layer.provideMerge(
+        input.record
+          ? RecordingLlmAgentLayer.pipe(
+            Layer.provideMerge(AgentRecorderLayer),
+            Layer.provide(AgentLayerMap.get(input.agent))
+          )
+          : AgentLayerMap.get(input.agent)
+      )
     )
   )
 )
\ No newline at end of file
@@ -0,0 +1,46 @@
+import type { CommandConfig } from "./StorageService.js"
+
+/**
+ * A setup or check step ready to run
+ */
+export interface ResolvedStep {
+  /** Step name, absent for a single command string */
+  readonly name?: string
+  readonly command: string
+  readonly cwd?: string
+  readonly timeout?: number
+  readonly required: boolean
+  /** File-safe identifier for the step's output file, absent for a single command string */
+  readonly fileId?: string
+}
+
+/**
+ * The steps of a setup or check command. A single string is one unnamed, required step;
+ * empty commands are skipped.
+ */
+export const commandSteps = (config: CommandConfig | undefined): Array<ResolvedStep> => {
+  if (config === undefined) return []
+  if (typeof config === "string") {
+    return config.trim() === "" ? [] : [{ command: config, required: true }]
+  }
+  return config.flatMap((step, index) =>
+    step.command.trim() === ""
+      ? []
+      : [{
+          name: step.name,
+          command: step.command,
+          ...(step.cwd !== undefined ? { cwd: step.cwd } : {}),
+          ...(step.timeout !== undefined ? { timeout: step.timeout } : {}),
+          required: step.required ?? true,
+          fileId: `${index + 1}-${step.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "step"}`
+        }]
+  )
+}
+
+/**
+ * Short description of a setup or check command for display
+ */
+export const describeCommand = (config: CommandConfig | undefined): string | undefined => {
+  if (config === undefined) return undefined
+  return typeof config === "string" ? config : config.map((step) => step.name).join(", ")
+}
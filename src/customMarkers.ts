@@ -0,0 +1,109 @@
+import { Effect, FileSystem, Path, Stream } from "effect"
+import { ChildProcess, ChildProcessSpawner } from "effect/unstable/process"
+import * as Uuid from "uuid"
+import type { MarkerExtractorConfig } from "./extractMarkers.js"
+import { CustomMarker, markerAttributes } from "./LlmMarkerEvent.js"
+import { CustomMarkerActionFailed } from "./LoopEvent.js"
+import type { NotificationServiceShape } from "./NotificationService.js"
+import type { CustomMarkerAction, CustomMarkerConfig, LoopPhase } from "./StorageService.js"
+
+type CustomMarkersConfig = Readonly<Record<string, CustomMarkerConfig>>
+
+/**
+ * Custom markers declared for a loop phase
+ */
+export const customMarkersForPhase = (
+  markers: CustomMarkersConfig | undefined,
+  phase: LoopPhase
+): Array<readonly [tag: string, marker: CustomMarkerConfig]> =>
+  Object.entries(markers ?? {}).filter(([, marker]) => marker.phases === undefined || marker.phases.includes(phase))
+
+/**
+ * Marker extractor config for the custom markers of a loop phase
+ */
+export const customMarkerConfig = (
+  markers: CustomMarkersConfig | undefined,
+  phase: LoopPhase
+): MarkerExtractorConfig<Record<string, CustomMarker>> =>
+  Object.fromEntries(
+    customMarkersForPhase(markers, phase).map(([tag]) => [
+      tag,
+      (content: string, attributes: Readonly<Record<string, string>>) =>
+        new CustomMarker({ tag, content, ...markerAttributes(attributes) })
+    ])
+  )
+
+/**
+ * Run a shell command with the marker in its environment, failing on a non-zero exit code
+ */
+const runMarkerCommand = (command: string, marker: CustomMarker, cwd: string) =>
+  Effect.scoped(
+    Effect.gen(function*() {
+      const cmd = ChildProcess.make(command, [], {
+        cwd,
+        shell: true,
+        extendEnv: true,
+        env: {
+          CUGGINO_MARKER: marker.tag,
+          CUGGINO_MARKER_CONTENT: marker.content,
+          CUGGINO_MARKER_ATTRIBUTES: JSON.stringify(marker.attributes ?? {})
+        }
+      })
+      const handle = yield* ChildProcess.spawn(cmd)
+      yield* Stream.runDrain(handle.stdout).pipe(Effect.ignore)
+      yield* Stream.runDrain(handle.stderr).pipe(Effect.ignore)
+      const exitCode = yield* handle.exitCode
+      if (exitCode !== 0) {
+        return yield* Effect.fail(`Command exited with code ${exitCode}`)
+      }
+    })
+  )
+
+/**
+ * Perform the action of a custom marker.
+ * Returns a CustomMarkerActionFailed event when the action fails, null otherwise. Never fails the outer effect.
+ */
+export const runCustomMarkerAction = (
+  marker: CustomMarker,
+  action: CustomMarkerAction,
+  cwd: string,
+  iteration: number,
+  notification: NotificationServiceShape,
+  fs: FileSystem.FileSystem,
+  path: Path.Path
+): Effect.Effect<CustomMarkerActionFailed | null, never, ChildProcessSpawner.ChildProcessSpawner> => {
+  const perform = (): Effect.Effect<void, unknown, ChildProcessSpawner.ChildProcessSpawner> => {
+    switch (action.type) {
+      case "append": {
+        const file = path.resolve(cwd, action.file)
+        return fs.makeDirectory(path.dirname(file), { recursive: true }).pipe(
+          Effect.andThen(
+            fs.writeFileString(file, `\n## ${new Date().toISOString()} (${marker.tag})\n\n${marker.content}\n`, { flag: "a" })
+          )
+        )
+      }
+      case "folder": {
+        const folder = path.resolve(cwd, action.folder)
+        return fs.makeDirectory(folder, { recursive: true }).pipe(
+          Effect.andThen(fs.writeFileString(path.join(folder, `${Uuid.v7()}.md`), `${marker.content}\n`))
+        )
+      }
+      case "command":
+        return runMarkerCommand(action.command, marker, cwd)
+      case "notify":
+        return notification.send({ title: `${notification.repoName}: ${marker.tag}`, body: marker.content })
+    }
+  }
+
+  return perform().pipe(
+    Effect.as(null),
+    Effect.catch((cause) =>
+      Effect.succeed(new CustomMarkerActionFailed({
+        iteration,
+        tag: marker.tag,
+        action: action.type,
+        message: cause instanceof Error ? cause.message : String(cause)
+      }))
+    )
+  )
+}
@@ -0,0 +1,206 @@
+import { Effect, FileSystem } from "effect"
+import type { DiagnosticFormat } from "./StorageService.js"
+
+/**
+ * A problem reported by the check command
+ */
+export interface Diagnostic {
+  readonly file?: string
+  readonly line?: number
+  readonly column?: number
+  readonly severity: "error" | "warning"
+  readonly message: string
+}
+
+/**
+ * Diagnostics found in a check command's output, and their compact summary for the agents
+ */
+export interface CheckDiagnostics {
+  readonly errors: number
+  readonly warnings: number
+  /** Empty when no diagnostics were recognized */
+  readonly summary: string
+}
+
+/**
+ * Extracts the diagnostics of one output format from the (ANSI-stripped) lines of the output
+ */
+type DiagnosticsParser = (lines: ReadonlyArray<string>) => Array<Diagnostic>
+
+const severityOf = (text: string | undefined): Diagnostic["severity"] =>
+  text?.toLowerCase() === "warning" ? "warning" : "error"
+
+/**
+ * `file(line,col): error TS1234: message` and the pretty `file:line:col - error TS1234: message`
+ */
+const parseTsc: DiagnosticsParser = (lines) =>
+  lines.flatMap((line) => {
+    const match = /^(.+?)(?:\((\d+),(\d+)\):|:(\d+):(\d+) -) (error|warning) (TS\d+): (.*)$/.exec(line)
+    if (match === null) return []
+    return [{
+      file: match[1],
+      line: Number(match[2] ?? match[4]),
+      column: Number(match[3] ?? match[5]),
+      severity: severityOf(match[6]),
+      message: `${match[7]}: ${match[8]}`
+    }]
+  })
+
+/**
+ * ESLint's default (stylish) format: a file path line, then indented `line:col  severity  message  rule` lines
+ */
+const parseEslint: DiagnosticsParser = (lines) => {
+  const diagnostics: Array<Diagnostic> = []
+  let file: string | undefined
+  for (const line of lines) {
+    const match = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)\s*$/.exec(line)
+    if (match !== null && file !== undefined) {
+      diagnostics.push({
+        file,
+        line: Number(match[1]),
+        column: Number(match[2]),
+        severity: severityOf(match[3]),
+        message: match[4].replace(/\s{2,}/g, " ")
+      })
+    } else if (/^\S+\.\w+$/.test(line.trim()) && !/^\s/.test(line)) {
+      file = line.trim()
+    } else if (line.trim() === "") {
+      file = undefined
+    }
+  }
+  return diagnostics
+}
+
+/**
+ * Failed tests of vitest (`FAIL  file > suite > test`) and jest (`FAIL file` followed by `● suite › test`).
+ * A failed file without failed tests (e.g. it does not load) is reported as such.
+ */
+const parseTestFailures: DiagnosticsParser = (lines) => {
+  const diagnostics: Array<Diagnostic> = []
+  let failedFile: { readonly file: string; tests: number } | undefined
+  const flushFile = () => {
+    if (failedFile !== undefined && failedFile.tests === 0) {
+      diagnostics.push({ file: failedFile.file, severity: "error", message: "test file failed" })
+    }
+    failedFile = undefined
+  }
+  for (const line of lines) {
+    const fail = /^\s*FAIL\s+(\S+)(?:\s+>\s+(.+?))?\s*$/.exec(line)
+    if (fail !== null) {
+      if (fail[2] !== undefined) {
+        if (failedFile?.file === fail[1]) failedFile.tests++
+        diagnostics.push({ file: fail[1], severity: "error", message: `test failed: ${fail[2]}` })
+      } else if (failedFile?.file !== fail[1]) {
+        flushFile()
+        failedFile = { file: fail[1], tests: 0 }
+      }
+      continue
+    }
+    const bullet = /^\s*●\s+(.+›.+?)\s*$/.exec(line)
+    if (bullet !== null && failedFile !== undefined) {
+      failedFile.tests++
+      diagnostics.push({ file: failedFile.file, severity: "error", message: `test failed: ${bullet[1]}` })
+    }
+  }
+  flushFile()
+  return diagnostics
+}
+
+/**
+ * Any `file:line[:col]: [error|warning:] message` line (gcc, eslint's unix format, many linters)
+ */
+const parseGeneric: DiagnosticsParser = (lines) =>
+  lines.flatMap((line) => {
+    const match = /^([\w./@+-]*\.\w+):(\d+)(?::(\d+))?:?\s+(?:(error|warning)\b:?\s*)?(.+)$/i.exec(line.trim())
+    if (match === null) return []
+    return [{
+      file: match[1],
+      line: Number(match[2]),
+      ...(match[3] !== undefined ? { column: Number(match[3]) } : {}),
+      severity: severityOf(match[4]),
+      message: match[5]
+    }]
+  })
+
+/**
+ * Parser of each format (`vitest` and `jest` share one). The most specific formats come first,
+ * so their diagnostics win when another parser matches the same location.
+ */
+const parsers: Record<DiagnosticFormat, DiagnosticsParser> = {
+  tsc: parseTsc,
+  eslint: parseEslint,
+  vitest: parseTestFailures,
+  jest: parseTestFailures,
+  generic: parseGeneric
+}
+
+/**
+ * All formats, in the order their parsers run
+ */
+export const diagnosticFormats: ReadonlyArray<DiagnosticFormat> = ["tsc", "eslint", "vitest", "jest", "generic"]
+
+/**
+ * Extract the diagnostics of the given formats (all by default) from a check command's output
+ */
+export const parseDiagnostics = (
+  output: string,
+  formats: ReadonlyArray<DiagnosticFormat> = diagnosticFormats
+): Array<Diagnostic> => {
+  const lines = output.replace(/\x1b\[[0-9;]*m/g, "").split(/\r?\n/)
+  const seen = new Set<string>()
+  const diagnostics: Array<Diagnostic> = []
+  for (const parser of new Set(diagnosticFormats.filter((format) => formats.includes(format)).map((format) => parsers[format]))) {
+    for (const diagnostic of parser(lines)) {
+      const key = diagnostic.line !== undefined
+        ? `${diagnostic.file}:${diagnostic.line}:${diagnostic.column ?? ""}`
+        : `${diagnostic.file}:${diagnostic.message}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      diagnostics.push(diagnostic)
+    }
+  }
+  return diagnostics
+}
+
+/**
+ * Format a count with its noun, pluralized (e.g. "1 error", "3 warnings")
+ */
+export const formatCount = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? "" : "s"}`
+
+/**
+ * Compact markdown list of diagnostics, errors first, capped at `limit` entries
+ */
+export const summarizeDiagnostics = (diagnostics: ReadonlyArray<Diagnostic>, limit = 30): string => {
+  if (diagnostics.length === 0) return ""
+  const errors = diagnostics.filter((diagnostic) => diagnostic.severity === "error")
+  const warnings = diagnostics.filter((diagnostic) => diagnostic.severity === "warning")
+  const entries = [...errors, ...warnings].slice(0, limit).map((diagnostic) => {
+    const location = diagnostic.file === undefined
+      ? ""
+      : `${diagnostic.file}${diagnostic.line !== undefined ? `:${diagnostic.line}` : ""}${diagnostic.column !== undefined ? `:${diagnostic.column}` : ""} `
+    const message = diagnostic.message.length > 200 ? `${diagnostic.message.slice(0, 200)}…` : diagnostic.message
+    return `- ${location}${diagnostic.severity}: ${message}`
+  })
+  const more = diagnostics.length > limit ? [`- … and ${diagnostics.length - limit} more`] : []
+  return [`${formatCount(errors.length, "error")}, ${formatCount(warnings.length, "warning")}:`, "", ...entries, ...more].join("\n")
+}
+
+/**
+ * Read a check output file and summarize its diagnostics. Never fails: an unreadable file has none.
+ */
+export const readCheckDiagnostics = (
+  filePath: string,
+  formats: ReadonlyArray<DiagnosticFormat> | undefined,
+  fs: FileSystem.FileSystem
+): Effect.Effect<CheckDiagnostics> =>
+  fs.readFileString(filePath).pipe(
+    Effect.map((output) => {
+      const diagnostics = parseDiagnostics(output, formats)
+      return {
+        errors: diagnostics.filter((diagnostic) => diagnostic.severity === "error").length,
+        warnings: diagnostics.filter((diagnostic) => diagnostic.severity === "warning").length,
+        summary: summarizeDiagnostics(diagnostics)
+      }
+    }),
+    Effect.catch(() => Effect.succeed({ errors: 0, warnings: 0, summary: "" }))
+  )
@@ -1,32 +1,53 @@
 import { Stream } from "effect"
 import { AgentMessage, type LlmAgentEvent } from "./LlmAgentEvent.js"
 
+/**
+ * Attributes of a marker's opening tag, e.g. `{ task: "3" }` for `<DONE task="3">`
+ */
+export type MarkerAttributes = Readonly<Record<string, string>>
+
 /**
  * Configuration for marker extraction.
  * Maps marker tag names (as they appear in XML tags) to factory functions
- * that create the marker event from the extracted content.
+ * that create the marker event from the extracted content and the opening tag's attributes.
  *
  * @example
  * ```typescript
  * const config = {
  *   NOTE: (content) => ({ _tag: "Note" as const, content }),
- *   SPEC_ISSUE: (content) => ({ _tag: "SpecIssue" as const, content })
+ *   DONE: (content, attributes) => ({ _tag: "Done" as const, content, task: attributes.task })
  * }
  * ```
  */
 export type MarkerExtractorConfig<TMarkers extends Record<string, unknown>> = {
-  readonly [K in keyof TMarkers]: (content: string) => TMarkers[K]
+  readonly [K in keyof TMarkers]: (content: string, attributes: MarkerAttributes) => TMarkers[K]
 }
 
 /**
  * Infer the union type of marker events from a config
  */
 export type MarkerEventsFromConfig<TConfig extends MarkerExtractorConfig<Record<string, unknown>>> =
-  TConfig[keyof TConfig] extends (content: string) => infer R ? R : never
+  TConfig[keyof TConfig] extends (content: string, attributes: MarkerAttributes) => infer R ? R : never
 
-// Regex to match XML-style markers
+// Regex to match XML-style markers, with optional attributes on the opening tag
 const createMarkerRegex = (tag: string) =>
-  new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "g")
+  new RegExp(`<${tag}(\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "g")
+
+// Regex to match the opening tag of a marker
+const createOpeningTagRegex = (tag: string) =>
+  new RegExp(`<${tag}(\\s[^>]*)?>`, "g")
+
+/**
+ * Parse `name="value"` (or single-quoted) attributes of an opening tag
+ */
+export const parseMarkerAttributes = (source: string | undefined): MarkerAttributes => {
+  const attributes: Record<string, string> = {}
+  if (source === undefined) return attributes
+  for (const match of source.matchAll(/([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = match[2] ?? match[3]
+  }
+  return attributes
+}
 
 /**
  * A segment in the extraction result - either a marker or a text segment
@@ -56,7 +77,7 @@ const extractAndStripMarkers = <TMarkers extends Record<string, unknown>>(
     const regex = createMarkerRegex(tag)
     for (const match of text.matchAll(regex)) {
       matches.push({
-        marker: factory(match[1].trim()) as TMarkers[keyof TMarkers],
+        marker: factory(match[2].trim(), parseMarkerAttributes(match[1])) as TMarkers[keyof TMarkers],
         startIndex: match.index!,
         endIndex: match.index! + match[0].length
       })
@@ -96,6 +117,53 @@ const extractAndStripMarkers = <TMarkers extends Record<string, unknown>>(
   return segments
 }
 
+/**
+ * Most characters held back waiting for a marker's closing tag. An opening tag that is never
+ * closed would otherwise hold back every later message until the stream ends.
+ */
+const MAX_PENDING_LENGTH = 20_000
+
+/**
+ * Find where the text should be split so that a marker that may continue in the next
+ * message is held back: the earliest opening tag without a closing tag, or a partial
+ * opening tag (e.g. `<DO`) at the very end. Returns `text.length` when nothing is held back.
+ */
+const findPendingStart = (text: string, tags: ReadonlyArray<string>): number => {
+  // Ranges covered by complete markers
+  const complete: Array<readonly [number, number]> = []
+  for (const tag of tags) {
+    for (const match of text.matchAll(createMarkerRegex(tag))) {
+      complete.push([match.index!, match.index! + match[0].length])
+    }
+  }
+  const isInsideMarker = (index: number) => complete.some(([start, end]) => index >= start && index < end)
+
+  let pendingStart = text.length
+
+  // Unclosed opening tags
+  for (const tag of tags) {
+    for (const match of text.matchAll(createOpeningTagRegex(tag))) {
+      if (!isInsideMarker(match.index!)) {
+        pendingStart = Math.min(pendingStart, match.index!)
+        break
+      }
+    }
+  }
+
+  // Partial opening tag at the end of the text (possibly cut inside its attributes)
+  const lastOpen = text.lastIndexOf("<")
+  if (lastOpen !== -1 && lastOpen < pendingStart && !text.includes(">", lastOpen)) {
+    const tail = text.slice(lastOpen)
+    const isPartialTag = (tag: string) =>
+      `<${tag}`.startsWith(tail) || (tail.startsWith(`<${tag}`) && /\s/.test(tail.charAt(tag.length + 1)))
+    if (tags.some(isPartialTag)) {
+      pendingStart = lastOpen
+    }
+  }
+
+  return pendingStart
+}
+
 /**
  * Stream transformer that takes a stream of LlmAgentEvents and extracts markers
  * from AgentMessage events.
@@ -106,6 +174,11 @@ const extractAndStripMarkers = <TMarkers extends Record<string, unknown>>(
  * - If remaining text is non-empty, a cleaned AgentMessage is also emitted
  * - If the text only contains markers (no remaining text), no AgentMessage is emitted
  *
+ * Extraction is stateful across the stream: a marker split over several AgentMessages
+ * (with other events in between) is buffered from its opening tag and emitted once the
+ * closing tag arrives. Text still buffered when the stream ends, or once the buffer grows past
+ * `MAX_PENDING_LENGTH` characters, is emitted as is.
+ *
  * Non-AgentMessage events pass through unchanged.
  *
  * The markers to extract are configured via the config parameter, which maps
@@ -136,22 +209,38 @@ export const extractMarkers = <E, R, TMarkers extends Record<string, unknown>>(
   stream: Stream.Stream<LlmAgentEvent, E, R>,
   config: MarkerExtractorConfig<TMarkers>
 ): Stream.Stream<LlmAgentEvent | TMarkers[keyof TMarkers], E, R> => {
-  return stream.pipe(
-    Stream.flatMap((event) => {
-      // Non-AgentMessage events pass through unchanged
-      if (event._tag !== "AgentMessage") {
-        return Stream.succeed(event)
-      }
-
-      // Extract ordered segments (markers and text interleaved)
-      const segments = extractAndStripMarkers(event.text, config)
-
-      // Map segments to events in order
-      const events: Array<LlmAgentEvent | TMarkers[keyof TMarkers]> = segments.map((segment) =>
-        segment.type === "marker" ? segment.value : new AgentMessage({ text: segment.value })
-      )
-
-      return Stream.fromIterable(events)
-    })
-  )
+  const tags = Object.keys(config)
+
+  // Map segments to events in order
+  const toEvents = (text: string): Array<LlmAgentEvent | TMarkers[keyof TMarkers]> =>
+    extractAndStripMarkers(text, config).map((segment) =>
+      segment.type === "marker" ? segment.value : new AgentMessage({ text: segment.value })
+    )
+
+  return Stream.suspend(() => {
+    // Text held back because it may start a marker that continues in a later message
+    let pending = ""
+
+    return stream.pipe(
+      Stream.flatMap((event) => {
+        // Non-AgentMessage events pass through unchanged
+        if (event._tag !== "AgentMessage") {
+          return Stream.succeed(event)
+        }
+
+        const text = pending + event.text
+        const heldBack = findPendingStart(text, tags)
+        // Past the limit, the held back text is passed on as is
+        const pendingStart = text.length - heldBack > MAX_PENDING_LENGTH ? text.length : heldBack
+        pending = text.slice(pendingStart)
+
+        return Stream.fromIterable(toEvents(text.slice(0, pendingStart)))
+      }),
+      Stream.concat(Stream.suspend(() => {
+        const rest = pending
+        pending = ""
+        return Stream.fromIterable(toEvents(rest))
+      }))
+    )
+  })
 }
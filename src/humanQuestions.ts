@@ -0,0 +1,136 @@
+import { Data, Duration, Effect, Option } from "effect"
+import * as readline from "node:readline/promises"
+import { getUpdates, sendMessage } from "./TelegramService.js"
+import { authenticate, splitMessage } from "./TelegramPm.js"
+import type { QuestionChannel, QuestionsConfig, StorageServiceShape } from "./StorageService.js"
+
+/**
+ * Error when a question cannot be delivered or answered
+ */
+export class HumanQuestionError extends Data.TaggedError("HumanQuestionError")<{
+  readonly channel: QuestionChannel
+  readonly reason: string
+  readonly cause?: unknown
+}> {
+  override get message(): string {
+    return `Could not ask via ${this.channel}: ${this.reason}`
+  }
+}
+
+/**
+ * The configured channel, or `terminal` when stdin is a TTY and `file` otherwise
+ */
+export const questionChannel = (config: QuestionsConfig | undefined): QuestionChannel =>
+  config?.channel ?? (process.stdin.isTTY ? "terminal" : "file")
+
+// One terminal prompt at a time: concurrent loops would otherwise read the same stdin line
+const terminalLock = Effect.makeSemaphoreUnsafe(1)
+
+/**
+ * Read a one-line answer from stdin (the question itself is printed by the CLI output).
+ * With a timeout, gives up and returns `None` when no answer arrives in time.
+ */
+const askInTerminal = (timeout: number | undefined): Effect.Effect<Option.Option<string>, HumanQuestionError> => {
+  const ask = Effect.acquireUseRelease(
+    Effect.sync(() => readline.createInterface({ input: process.stdin, output: process.stdout })),
+    (rl) =>
+      Effect.tryPromise({
+        try: (signal) => rl.question("Your answer: ", { signal }),
+        catch: (cause) => new HumanQuestionError({ channel: "terminal", reason: "stdin closed", cause })
+      }),
+    (rl) => Effect.sync(() => rl.close())
+  )
+  return timeout === undefined ? Effect.map(ask, Option.some) : Effect.timeoutOption(ask, Duration.seconds(timeout))
+}
+
+/**
+ * Send the question to the Telegram chat and wait for the next message from it.
+ * Without `telegramChatId`, the chat is picked with the same auth-code handshake as `pm --telegram`.
+ */
+const askOnTelegram = (question: string, config: QuestionsConfig | undefined): Effect.Effect<string, HumanQuestionError> =>
+  Effect.gen(function*() {
+    const token = config?.telegramToken
+    if (token === undefined) {
+      return yield* new HumanQuestionError({ channel: "telegram", reason: "questions.telegramToken is not configured" })
+    }
+
+    let chatId: number
+    let offset: number
+    if (config?.telegramChatId !== undefined) {
+      chatId = config.telegramChatId
+      // Skip messages sent before the question
+      const pending = yield* getUpdates(token, -1, 0)
+      offset = pending.length > 0 ? pending[pending.length - 1].update_id + 1 : 0
+    } else {
+      ({ chatId, offset } = yield* authenticate(token))
+    }
+
+    for (const chunk of splitMessage(`Question from cuggino:\n\n${question}`)) {
+      yield* sendMessage(token, chatId, chunk)
+    }
+
+    while (true) {
+      const updates = yield* getUpdates(token, offset, 30)
+      for (const update of updates) {
+        offset = update.update_id + 1
+        if (update.message?.chat.id === chatId && update.message.text) {
+          yield* sendMessage(token, chatId, "Thanks, resuming the loop.").pipe(Effect.ignore)
+          return update.message.text
+        }
+      }
+    }
+  }).pipe(
+    Effect.catchTag("TelegramError", (error) =>
+      Effect.fail(new HumanQuestionError({ channel: "telegram", reason: error.reason, cause: error }))
+    )
+  )
+
+/**
+ * Write the question to `.cuggino/questions/` and poll for its answer file
+ */
+const askInFile = (
+  question: string,
+  config: QuestionsConfig | undefined,
+  storage: StorageServiceShape
+): Effect.Effect<string, HumanQuestionError> =>
+  Effect.gen(function*() {
+    const filename = yield* storage.writeQuestion(question)
+    while (true) {
+      const answer = yield* storage.takeAnswer(filename)
+      if (Option.isSome(answer)) {
+        return answer.value
+      }
+      yield* Effect.sleep(Duration.seconds(config?.pollInterval ?? 5))
+    }
+  }).pipe(
+    Effect.catchTag("StorageError", (error) =>
+      Effect.fail(new HumanQuestionError({ channel: "file", reason: error.message, cause: error }))
+    )
+  )
+
+/**
+ * Ask a human a question through the configured channel and wait for the answer.
+ * `onAsk` runs when the question is put to a channel, right before waiting on it:
+ * a terminal question waits for its turn at the prompt, and moves to the file
+ * channel when `questions.terminalTimeout` passes without an answer.
+ */
+export const askHuman = <R>(
+  question: string,
+  config: QuestionsConfig | undefined,
+  storage: StorageServiceShape,
+  onAsk: (channel: QuestionChannel) => Effect.Effect<void, never, R>
+): Effect.Effect<string, HumanQuestionError, R> => {
+  const inFile = onAsk("file").pipe(Effect.andThen(askInFile(question, config, storage)))
+  switch (questionChannel(config)) {
+    case "terminal":
+      return terminalLock.withPermits(1)(
+        onAsk("terminal").pipe(Effect.andThen(askInTerminal(config?.terminalTimeout)))
+      ).pipe(
+        Effect.flatMap(Option.match({ onNone: () => inFile, onSome: Effect.succeed }))
+      )
+    case "telegram":
+      return onAsk("telegram").pipe(Effect.andThen(askOnTelegram(question, config)))
+    case "file":
+      return inFile
+  }
+}
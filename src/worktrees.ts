@@ -0,0 +1,162 @@
+import { Data, Effect, FileSystem, Path, Stream } from "effect"
+import { ChildProcess, ChildProcessSpawner } from "effect/unstable/process"
+
+/**
+ * Error when a git worktree operation fails
+ */
+export class WorktreeError extends Data.TaggedError("WorktreeError")<{
+  readonly operation: string
+  readonly detail: string
+  readonly cause?: unknown
+}> {
+  override get message(): string {
+    return `Worktree ${this.operation} failed: ${this.detail}`
+  }
+}
+
+/**
+ * A loop's worktree and the branch checked out in it
+ */
+export interface LoopWorktree {
+  readonly path: string
+  readonly branch: string
+}
+
+/**
+ * Run git and return its trimmed output, failing on a non-zero exit code
+ */
+const git = (
+  args: ReadonlyArray<string>,
+  cwd: string,
+  operation: string
+): Effect.Effect<string, WorktreeError, ChildProcessSpawner.ChildProcessSpawner> =>
+  Effect.scoped(
+    Effect.gen(function*() {
+      const handle = yield* ChildProcess.spawn(ChildProcess.make("git", args, { cwd }))
+      const output = (yield* handle.all.pipe(Stream.decodeText, Stream.mkString)).trim()
+      const exitCode = yield* handle.exitCode
+      if (exitCode !== 0) {
+        return yield* new WorktreeError({ operation, detail: output || `git exited with code ${exitCode}` })
+      }
+      return output
+    })
+  ).pipe(
+    Effect.catch((cause) =>
+      cause instanceof WorktreeError
+        ? Effect.fail(cause)
+        : Effect.fail(new WorktreeError({ operation, detail: String(cause), cause }))
+    )
+  )
+
+/**
+ * Branch name for a loop: the backlog item's file name (or the focus text) as a slug,
+ * made unique with the end of the session id
+ */
+export const worktreeBranch = (focus: string, sessionId: string, path: Path.Path, prefix = "cuggino/"): string => {
+  const name = focus.startsWith("@") ? path.basename(focus.slice(1)).replace(/\.[^.]*$/, "") : focus
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").slice(0, 40).replace(/^-+|-+$/g, "")
+  return `${prefix}${slug === "" ? "loop" : slug}-${sessionId.slice(-8)}`
+}
+
+/**
+ * Create a worktree for the session under `worktreesDir`, on a new branch from the current HEAD
+ */
+export const createWorktree = (
+  repoDir: string,
+  worktreesDir: string,
+  sessionId: string,
+  branch: string,
+  fs: FileSystem.FileSystem,
+  path: Path.Path
+): Effect.Effect<LoopWorktree, WorktreeError, ChildProcessSpawner.ChildProcessSpawner> =>
+  Effect.gen(function*() {
+    const worktreePath = path.join(worktreesDir, sessionId)
+    yield* fs.makeDirectory(worktreesDir, { recursive: true }).pipe(
+      Effect.mapError((cause) => new WorktreeError({ operation: "create", detail: cause.message, cause }))
+    )
+    yield* git(["worktree", "add", "-b", branch, worktreePath, "HEAD"], repoDir, "create")
+    return { path: worktreePath, branch }
+  })
+
+/**
+ * Merge the branch into the branch checked out in `repoDir` and return the new short HEAD hash.
+ * A conflicting merge is aborted, leaving the working tree as it was.
+ */
+export const mergeWorktreeBranch = (
+  repoDir: string,
+  branch: string,
+  mode: "merge" | "fast-forward"
+): Effect.Effect<string, WorktreeError, ChildProcessSpawner.ChildProcessSpawner> =>
+  Effect.gen(function*() {
+    const args = mode === "merge"
+      ? ["merge", "--no-ff", "-m", `Merge branch '${branch}'`, branch]
+      : ["merge", "--ff-only", branch]
+    yield* git(args, repoDir, mode).pipe(
+      Effect.tapError(() => git(["merge", "--abort"], repoDir, "abort").pipe(Effect.ignore))
+    )
+    return yield* git(["rev-parse", "--short", "HEAD"], repoDir, mode)
+  })
+
+/**
+ * Delete a branch that has been merged (or, with `force`, one that has not)
+ */
+export const deleteWorktreeBranch = (
+  repoDir: string,
+  branch: string,
+  force = false
+): Effect.Effect<void, WorktreeError, ChildProcessSpawner.ChildProcessSpawner> =>
+  Effect.asVoid(git(["branch", force ? "-D" : "-d", branch], repoDir, "delete branch"))
+
+/**
+ * Full hashes of the commits on HEAD that are not reachable from a commit, newest first
+ */
+export const commitsSince = (
+  repoDir: string,
+  commitHash: string
+): Effect.Effect<Array<string>, WorktreeError, ChildProcessSpawner.ChildProcessSpawner> =>
+  git(["rev-list", `${commitHash}..HEAD`], repoDir, "list commits").pipe(
+    Effect.map((output) => output === "" ? [] : output.split("\n"))
+  )
+
+/**
+ * Create a branch at the current HEAD, without checking it out
+ */
+export const createBranch = (
+  repoDir: string,
+  branch: string
+): Effect.Effect<void, WorktreeError, ChildProcessSpawner.ChildProcessSpawner> =>
+  Effect.asVoid(git(["branch", branch, "HEAD"], repoDir, "create branch"))
+
+/**
+ * Rename a branch that no worktree has checked out
+ */
+export const renameBranch = (
+  repoDir: string,
+  branch: string,
+  newName: string
+): Effect.Effect<void, WorktreeError, ChildProcessSpawner.ChildProcessSpawner> =>
+  Effect.asVoid(git(["branch", "-m", branch, newName], repoDir, "rename branch"))
+
+/**
+ * Reset the checked out branch to a commit, dropping the commits after it.
+ * Uncommitted changes are kept; the reset fails if they touch files that differ between HEAD and the commit.
+ */
+export const resetToCommit = (
+  repoDir: string,
+  commitHash: string
+): Effect.Effect<void, WorktreeError, ChildProcessSpawner.ChildProcessSpawner> =>
+  // Refresh the index first, so that files rewritten with the same content do not count as changed
+  git(["update-index", "-q", "--refresh"], repoDir, "refresh index").pipe(
+    Effect.ignore,
+    Effect.andThen(git(["reset", "--keep", commitHash], repoDir, "reset")),
+    Effect.asVoid
+  )
+
+/**
+ * Remove a worktree, discarding uncommitted changes in it (its branch is kept)
+ */
+export const removeWorktree = (
+  repoDir: string,
+  worktreePath: string
+): Effect.Effect<void, WorktreeError, ChildProcessSpawner.ChildProcessSpawner> =>
+  Effect.asVoid(git(["worktree", "remove", "--force", worktreePath], repoDir, "remove"))
@@ -0,0 +1,632 @@
+import { afterAll, describe, it, expect } from "vitest"
+import { Effect, Layer, Stream } from "effect"
+import { NodeServices } from "@effect/platform-node"
+import { execFileSync } from "node:child_process"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { LoopService, LoopServiceLayer } from "../src/LoopService.js"
+import { AgentLayerMap } from "../src/AgentLayerMap.js"
+import { SessionServiceMap } from "../src/SessionService.js"
+import { StorageServiceLayer } from "../src/StorageService.js"
+import { NotificationServiceLayer } from "../src/NotificationService.js"
+import type { BudgetConfig, CommandConfig, CommitGate, CommitStrategy, CustomMarkerConfig, LoopCheckpoint, MaxIterationsPolicy, QuestionsConfig, WorktreeConfig } from "../src/StorageService.js"
+import type { LoopEvent } from "../src/LoopEvent.js"
+import { PlanWritingScriptedLlmAgentLayer, planComplete } from "./planWritingAgent.js"
+
+// Temporary projects created by the tests, removed once all have run (tests run concurrently)
+const projects: Array<string> = []
+
+afterAll(() => {
+  for (const cwd of projects) {
+    fs.rmSync(cwd, { recursive: true, force: true })
+  }
+})
+
+// Create a temporary project with the given fixtures in .cuggino/fixtures
+const makeProject = (fixtures: Record<string, Array<unknown>>): string => {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "cuggino-loop-"))
+  projects.push(cwd)
+  const fixturesDir = path.join(cwd, ".cuggino", "fixtures")
+  fs.mkdirSync(fixturesDir, { recursive: true })
+  for (const [name, lines] of Object.entries(fixtures)) {
+    fs.writeFileSync(path.join(fixturesDir, name), lines.map((line) => JSON.stringify(line)).join("\n") + "\n")
+  }
+  return cwd
+}
+
+// Run the loop against the scripted agent and collect every event
+const runLoop = (
+  cwd: string,
+  options: {
+    readonly fallbackAgents?: ReadonlyArray<"scripted">
+    readonly questions?: QuestionsConfig
+    readonly customMarkers?: Record<string, CustomMarkerConfig>
+    readonly resume?: LoopCheckpoint
+    readonly budget?: BudgetConfig
+    readonly worktree?: WorktreeConfig
+    readonly onMaxIterations?: MaxIterationsPolicy
+    readonly failedDir?: string
+    readonly commitStrategy?: CommitStrategy
+    readonly commit?: boolean
+    readonly checkCommand?: CommandConfig
+    readonly commitGate?: CommitGate
+    readonly setupCommand?: CommandConfig
+    readonly slowMode?: boolean
+  } = {}
+) =>
+  Effect.gen(function*() {
+    const loop = yield* LoopService
+    return yield* loop.run({
+      focus: "Add a feature",
+      specsPath: ".specs",
+      cwd,
+      maxIterations: 2,
+      retry: { initialDelay: 0 },
+      ...options
+    }).pipe(
+      Stream.runCollect,
+      Effect.map((chunk): Array<LoopEvent> => Array.from(chunk))
+    )
+  }).pipe(
+    Effect.provide(
+      LoopServiceLayer.pipe(
+        Layer.provideMerge(PlanWritingScriptedLlmAgentLayer),
+        Layer.provideMerge(NotificationServiceLayer(cwd)),
+        Layer.provideMerge(AgentLayerMap.layer),
+        Layer.provideMerge(SessionServiceMap.layer),
+        Layer.provideMerge(StorageServiceLayer(cwd)),
+        Layer.provideMerge(NodeServices.layer)
+      )
+    )
+  )
+
+describe("LoopService with the scripted agent", () => {
+  it("should end the loop with a spec issue raised during planning", async () => {
+    const cwd = makeProject({
+      "planning.jsonl": [
+        { _tag: "SystemMessage", text: "Session initialized" },
+        { _tag: "AgentMessage", text: "<SPEC_ISSUE>The spec is ambiguous</SPEC_ISSUE>" }
+      ]
+    })
+
+    const events = await Effect.runPromise(runLoop(cwd))
+    const tags = events.map((event) => event._tag)
+
+    expect(tags).toContain("PlanningStart")
+    expect(tags).toContain("SpecIssue")
+    expect(tags[tags.length - 1]).toBe("LoopSpecIssue")
+    expect(fs.readdirSync(path.join(cwd, ".cuggino", "spec-issues"))).toHaveLength(1)
+  })
+
+  it("should retry a phase that failed with a transient error", async () => {
+    const cwd = makeProject({
+      "planning-1.jsonl": [
+        { _tag: "SystemMessage", text: "Session initialized" },
+        { _tag: "LlmSessionError", message: "API Error: 529 overloaded", transient: true }
+      ],
+      "planning-2.jsonl": [
+        { _tag: "AgentMessage", text: "<SPEC_ISSUE>Missing spec</SPEC_ISSUE>" }
+      ]
+    })
+
+    const events = await Effect.runPromise(runLoop(cwd))
+    const tags = events.map((event) => event._tag)
+
+    expect(tags).toContain("AgentRetrying")
+    expect(tags[tags.length - 1]).toBe("LoopSpecIssue")
+  })
+
+  it("should run a phase again when the session it nudges is unknown to the provider", async () => {
+    const cwd = makeProject({
+      "planning-1.jsonl": [
+        { _tag: "AgentMessage", text: "Let me think about it" }
+      ],
+      "planning-2.jsonl": [
+        { _tag: "LlmSessionError", message: "No codex session on record to resume", sessionNotFound: true }
+      ],
+      "planning-3.jsonl": [
+        { _tag: "AgentMessage", text: "<SPEC_ISSUE>Missing spec</SPEC_ISSUE>" }
+      ]
+    })
+
+    const events = await Effect.runPromise(runLoop(cwd))
+    const tags = events.map((event) => event._tag)
+
+    expect(tags).toContain("MarkerNudge")
+    expect(events.find((event) => event._tag === "AgentRetrying")).toMatchObject({ delaySeconds: 0 })
+    expect(tags[tags.length - 1]).toBe("LoopSpecIssue")
+  })
+
+  it("should fail the loop when a rate limit resets later than the longest wait", async () => {
+    const cwd = makeProject({
+      "planning-1.jsonl": [
+        { _tag: "LlmSessionError", message: "Usage limit reached", transient: true, resetAt: new Date(Date.now() + 2 * 3600 * 1000).toISOString() }
+      ]
+    })
+
+    const error = await Effect.runPromise(Effect.flip(runLoop(cwd)))
+
+    expect(error).toMatchObject({ _tag: "LoopError", phase: "planning" })
+    expect(error.message).toContain("maxResetWait")
+  })
+
+  it("should fall back to the next agent after a fatal error", async () => {
+    const cwd = makeProject({
+      "planning-1.jsonl": [
+        { _tag: "LlmSessionError", message: "Invalid API key", transient: false }
+      ],
+      "planning-2.jsonl": [
+        { _tag: "AgentMessage", text: "<SPEC_ISSUE>Missing spec</SPEC_ISSUE>" }
+      ]
+    })
+
+    const events = await Effect.runPromise(runLoop(cwd, { fallbackAgents: ["scripted"] }))
+    const tags = events.map((event) => event._tag)
+
+    expect(tags).toContain("AgentFallback")
+    expect(tags).not.toContain("AgentRetrying")
+    expect(tags[tags.length - 1]).toBe("LoopSpecIssue")
+  })
+
+  it("should nudge an agent that ended without a terminal marker", async () => {
+    const cwd = makeProject({
+      "planning-1.jsonl": [
+        { _tag: "AgentMessage", text: "I looked at the specs." }
+      ],
+      "planning-2.jsonl": [
+        { _tag: "AgentMessage", text: "<SPEC_ISSUE>Missing spec</SPEC_ISSUE>" }
+      ]
+    })
+
+    const events = await Effect.runPromise(runLoop(cwd))
+    const tags = events.map((event) => event._tag)
+
+    expect(tags).toContain("MarkerNudge")
+    expect(tags[tags.length - 1]).toBe("LoopSpecIssue")
+  })
+
+  it("should show a marker repeated within an attempt every time, but not again when a nudged attempt replays it", async () => {
+    const note = { _tag: "AgentMessage", text: "<NOTE>Checked the specs</NOTE>" }
+    const cwd = makeProject({
+      "planning.jsonl": planComplete,
+      "implementing-1.jsonl": [note, note],
+      "implementing-2.jsonl": [note, note, { _tag: "AgentMessage", text: "<SPEC_ISSUE>Missing spec</SPEC_ISSUE>" }]
+    })
+
+    const events = await Effect.runPromise(runLoop(cwd))
+    const tags = events.map((event) => event._tag)
+
+    expect(tags).toContain("MarkerNudge")
+    expect(tags.filter((tag) => tag === "Note")).toHaveLength(2)
+    expect(tags[tags.length - 1]).toBe("LoopSpecIssue")
+  })
+
+  it("should wait for the answer to a NEEDS_HUMAN question and resume the session", async () => {
+    const cwd = makeProject({
+      "planning-1.jsonl": [
+        { _tag: "AgentMessage", text: "<NEEDS_HUMAN>Which database should be used?</NEEDS_HUMAN>" }
+      ],
+      "planning-2.jsonl": [
+        { _tag: "AgentMessage", text: "<SPEC_ISSUE>Missing spec</SPEC_ISSUE>" }
+      ]
+    })
+    const questionsDir = path.join(cwd, ".cuggino", "questions")
+
+    // Answer the question as soon as its file appears
+    const answering = setInterval(() => {
+      const question = fs.existsSync(questionsDir)
+        ? fs.readdirSync(questionsDir).find((file) => !file.endsWith(".answer.md"))
+        : undefined
+      if (question !== undefined) {
+        fs.writeFileSync(path.join(questionsDir, question.replace(/\.md$/, ".answer.md")), "Postgres")
+        clearInterval(answering)
+      }
+    }, 10)
+
+    const events = await Effect.runPromise(
+      runLoop(cwd, { questions: { channel: "file", pollInterval: 0.01 } })
+    ).finally(() => clearInterval(answering))
+    const tags = events.map((event) => event._tag)
+
+    expect(tags).toContain("QuestionAsked")
+    expect(events.find((event) => event._tag === "QuestionAnswered")).toMatchObject({ answer: "Postgres" })
+    expect(tags).not.toContain("MarkerNudge")
+    expect(tags[tags.length - 1]).toBe("LoopSpecIssue")
+    expect(fs.readdirSync(questionsDir)).toHaveLength(0)
+  })
+
+  it("should run the action of a custom marker", async () => {
+    const cwd = makeProject({
+      "planning.jsonl": [
+        { _tag: "AgentMessage", text: "<PERF_CONCERN>The loop is quadratic</PERF_CONCERN>" },
+        { _tag: "AgentMessage", text: "<SPEC_ISSUE>Missing spec</SPEC_ISSUE>" }
+      ]
+    })
+
+    const events = await Effect.runPromise(runLoop(cwd, {
+      customMarkers: {
+        PERF_CONCERN: { description: "A performance concern", action: { type: "folder", folder: "perf" } }
+      }
+    }))
+
+    expect(events.find((event) => event._tag === "CustomMarker")).toMatchObject({
+      tag: "PERF_CONCERN",
+      content: "The loop is quadratic"
+    })
+    const files = fs.readdirSync(path.join(cwd, "perf"))
+    expect(files).toHaveLength(1)
+    expect(fs.readFileSync(path.join(cwd, "perf", files[0]), "utf-8")).toBe("The loop is quadratic\n")
+  })
+
+  it("should resume an interrupted loop from its checkpoint", async () => {
+    const cwd = makeProject({
+      "implementing.jsonl": [
+        { _tag: "AgentMessage", text: "<SPEC_ISSUE>Missing spec</SPEC_ISSUE>" }
+      ]
+    })
+    const wipDir = path.join(cwd, ".cuggino", "wip")
+    const checkpoint: LoopCheckpoint = { sessionId: "interrupted", focus: "Add a feature", iteration: 2, phase: "implementing" }
+    fs.mkdirSync(wipDir, { recursive: true })
+    fs.writeFileSync(path.join(wipDir, "interrupted.md"), "# Plan\n\n# Progress Log\n")
+    fs.writeFileSync(path.join(wipDir, "interrupted.state.json"), JSON.stringify(checkpoint))
+
+    const events = await Effect.runPromise(runLoop(cwd, { resume: checkpoint }))
+    const tags = events.map((event) => event._tag)
+
+    expect(tags[0]).toBe("LoopResumed")
+    expect(tags).not.toContain("PlanningStart")
+    expect(events.find((event) => event._tag === "IterationStart")).toMatchObject({ iteration: 2 })
+    expect(tags[tags.length - 1]).toBe("LoopSpecIssue")
+    expect(fs.existsSync(path.join(wipDir, "interrupted.state.json"))).toBe(false)
+  })
+
+  it("should end the loop once its token budget is spent", async () => {
+    const cwd = makeProject({
+      "planning.jsonl": planComplete,
+      "implementing.jsonl": [
+        { _tag: "AgentMessage", text: "<DONE>Add the feature</DONE>" },
+        { _tag: "UsageEvent", inputTokens: 800, outputTokens: 400, cacheReadTokens: 0, cacheWriteTokens: 0 }
+      ]
+    })
+
+    const events = await Effect.runPromise(runLoop(cwd, { budget: { maxTokens: 1000 } }))
+    const tags = events.map((event) => event._tag)
+
+    expect(tags.filter((tag) => tag === "ImplementingStart")).toHaveLength(1)
+    expect(events.find((event) => event._tag === "LoopBudgetExceeded")).toMatchObject({
+      iteration: 2,
+      limit: "tokens",
+      max: 1000,
+      spent: 1200
+    })
+    expect(tags[tags.length - 1]).toBe("LoopUsage")
+  })
+
+  it("should run the loop in a worktree and merge its branch on approval", async () => {
+    const cwd = makeProject({
+      "planning.jsonl": planComplete,
+      "implementing.jsonl": [
+        { _tag: "AgentMessage", text: "<NO_MORE_WORK>Nothing left to do</NO_MORE_WORK>" }
+      ],
+      "reviewing.jsonl": [
+        { _tag: "AgentMessage", text: "<APPROVED>Looks good</APPROVED>" }
+      ]
+    })
+    const git = (...args: Array<string>) => execFileSync("git", args, { cwd, encoding: "utf-8" })
+    git("init", "--quiet")
+    git("config", "user.name", "Test")
+    git("config", "user.email", "test@example.com")
+    fs.writeFileSync(path.join(cwd, "README.md"), "# Project\n")
+    git("add", "README.md")
+    git("commit", "--quiet", "-m", "Initial commit")
+
+    const events = await Effect.runPromise(runLoop(cwd, { worktree: { onApproval: "merge" } }))
+    const created = events.find((event) => event._tag === "WorktreeCreated")
+
+    expect(created).toMatchObject({ branch: expect.stringMatching(/^cuggino\/add-a-feature-/) })
+    expect(events.find((event) => event._tag === "WorktreeMerged")).toMatchObject({ mode: "merge" })
+    expect(events.map((event) => event._tag)).toContain("LoopApproved")
+    expect(fs.readdirSync(path.join(cwd, ".cuggino", "worktrees"))).toHaveLength(0)
+    expect(git("branch", "--list", "cuggino/*").trim()).toBe("")
+  })
+
+  it("should move the commits of a loop that hit max iterations to a failed branch", async () => {
+    const cwd = makeProject({
+      "planning.jsonl": planComplete,
+      "implementing-1.jsonl": [
+        { _tag: "AgentMessage", text: "<DONE>Half a feature</DONE>" }
+      ],
+      "implementing-2.jsonl": [
+        { _tag: "AgentMessage", text: "<NO_MORE_WORK>Stuck</NO_MORE_WORK>" }
+      ],
+      "reviewing.jsonl": [
+        { _tag: "AgentMessage", text: "<REQUEST_CHANGES>The feature is still missing</REQUEST_CHANGES>" }
+      ]
+    })
+    const git = (...args: Array<string>) => execFileSync("git", args, { cwd, encoding: "utf-8" })
+    git("init", "--quiet")
+    git("config", "user.name", "Test")
+    git("config", "user.email", "test@example.com")
+    git("add", "-A")
+    git("commit", "--quiet", "-m", "Initial commit")
+    const initialCommitHash = git("rev-parse", "HEAD").trim()
+    const failedDir = path.join(cwd, ".cuggino", "failed", "add-a-feature")
+
+    // The setup command stands in for the implementing agent's edits
+    const events = await Effect.runPromise(runLoop(cwd, {
+      commit: true,
+      slowMode: true,
+      setupCommand: "echo 'export const feature = 1' > feature.ts",
+      onMaxIterations: "branch",
+      failedDir
+    }))
+    const [branched] = events.flatMap((event) => event._tag === "FailedWorkBranched" ? [event] : [])
+
+    expect(branched.branch).toMatch(/^cuggino\/failed\/add-a-feature-/)
+    expect(events.map((event) => event._tag)).toContain("LoopMaxIterations")
+    expect(git("rev-parse", "HEAD").trim()).toBe(initialCommitHash)
+    expect(git("log", "--format=%s", "-1", branched.branch).trim()).toBe("Half a feature")
+    expect(fs.readFileSync(path.join(failedDir, "plan.md"), "utf-8")).toContain("# Plan")
+    expect(fs.existsSync(path.join(failedDir, "review.md"))).toBe(true)
+  })
+
+  it("should drop the commits of a loop that hit max iterations from the checked out branch", async () => {
+    const cwd = makeProject({
+      "planning.jsonl": planComplete,
+      "implementing-1.jsonl": [
+        { _tag: "AgentMessage", text: "<DONE>Half a feature</DONE>" }
+      ],
+      "implementing-2.jsonl": [
+        { _tag: "AgentMessage", text: "<NO_MORE_WORK>Stuck</NO_MORE_WORK>" }
+      ],
+      "reviewing.jsonl": [
+        { _tag: "AgentMessage", text: "<REQUEST_CHANGES>The feature is still missing</REQUEST_CHANGES>" }
+      ]
+    })
+    const git = (...args: Array<string>) => execFileSync("git", args, { cwd, encoding: "utf-8" })
+    git("init", "--quiet")
+    git("config", "user.name", "Test")
+    git("config", "user.email", "test@example.com")
+    git("add", "-A")
+    git("commit", "--quiet", "-m", "Initial commit")
+    const initialCommitHash = git("rev-parse", "HEAD").trim()
+
+    const events = await Effect.runPromise(runLoop(cwd, {
+      commit: true,
+      slowMode: true,
+      setupCommand: "echo 'export const feature = 1' > feature.ts",
+      onMaxIterations: "revert",
+      failedDir: path.join(cwd, ".cuggino", "failed", "add-a-feature")
+    }))
+
+    expect(events.find((event) => event._tag === "FailedWorkReverted")).toMatchObject({ commitHash: initialCommitHash.slice(0, 7) })
+    expect(git("rev-parse", "HEAD").trim()).toBe(initialCommitHash)
+    expect(fs.existsSync(path.join(cwd, "feature.ts"))).toBe(false)
+  })
+
+  it("should keep the commits of a loop that hit max iterations when the branch has commits it did not make", async () => {
+    const cwd = makeProject({
+      "planning.jsonl": planComplete,
+      "implementing-1.jsonl": [
+        { _tag: "AgentMessage", text: "<DONE>Half a feature</DONE>" }
+      ],
+      "implementing-2.jsonl": [
+        { _tag: "AgentMessage", text: "<NO_MORE_WORK>Stuck</NO_MORE_WORK>" }
+      ],
+      "reviewing.jsonl": [
+        { _tag: "AgentMessage", text: "<REQUEST_CHANGES>The feature is still missing</REQUEST_CHANGES>" }
+      ]
+    })
+    const git = (...args: Array<string>) => execFileSync("git", args, { cwd, encoding: "utf-8" })
+    git("init", "--quiet")
+    git("config", "user.name", "Test")
+    git("config", "user.email", "test@example.com")
+    git("add", "-A")
+    git("commit", "--quiet", "-m", "Initial commit")
+
+    // The setup command stands in for a user committing on the same branch while the loop runs
+    const events = await Effect.runPromise(runLoop(cwd, {
+      commit: true,
+      slowMode: true,
+      setupCommand: "test -f user.ts || (echo 'export {}' > user.ts && git add user.ts && git commit --quiet -m 'User commit'); echo 'export const feature = 1' > feature.ts",
+      onMaxIterations: "revert",
+      failedDir: path.join(cwd, ".cuggino", "failed", "add-a-feature")
+    }))
+
+    expect(events.find((event) => event._tag === "FailedWorkKept")).toMatchObject({ reason: expect.stringContaining("not made by the loop") })
+    expect(git("log", "--format=%s", "-2").trim().split("\n")).toEqual(["Half a feature", "User commit"])
+  })
+
+  it("should squash the loop's commits into one on approval", async () => {
+    const cwd = makeProject({
+      "reviewing.jsonl": [
+        { _tag: "AgentMessage", text: "<APPROVED>Looks good</APPROVED>" }
+      ]
+    })
+    const git = (...args: Array<string>) => execFileSync("git", args, { cwd, encoding: "utf-8" })
+    git("init", "--quiet")
+    git("config", "user.name", "Test")
+    git("config", "user.email", "test@example.com")
+    git("add", "-A")
+    git("commit", "--quiet", "-m", "Initial commit")
+    const initialCommitHash = git("rev-parse", "HEAD").trim()
+    // Per-task commits of earlier iterations
+    for (const task of ["Add the model", "Add the view"]) {
+      fs.writeFileSync(path.join(cwd, `${task.split(" ")[2]}.ts`), "export {}\n")
+      git("add", "-A")
+      git("commit", "--quiet", "-m", task)
+    }
+
+    const wipDir = path.join(cwd, ".cuggino", "wip")
+    const checkpoint: LoopCheckpoint = {
+      sessionId: "squash01",
+      focus: "Add a feature",
+      iteration: 1,
+      phase: "reviewing",
+      initialCommitHash
+    }
+    fs.mkdirSync(wipDir, { recursive: true })
+    fs.writeFileSync(
+      path.join(wipDir, "squash01.md"),
+      "# Feature plan\n\n1. Model\n2. View\n\n# Progress Log\n" +
+        "\n## 2026-01-01 10:00:00 (DONE)\n\nAdd the model\n" +
+        "\n## 2026-01-01 10:05:00 (DONE)\n\nAdd the view\n"
+    )
+
+    const events = await Effect.runPromise(runLoop(cwd, { resume: checkpoint, commitStrategy: "squash-on-approve" }))
+
+    expect(events.find((event) => event._tag === "CommitsSquashed")).toMatchObject({ commits: 2 })
+    expect(git("rev-list", "--count", `${initialCommitHash}..HEAD`).trim()).toBe("1")
+    expect(git("log", "-1", "--format=%B").trim()).toBe(
+      "Feature plan\n\n- Add the model\n- Add the view\n\nCuggino-Session: squash01"
+    )
+  })
+
+  it("should not squash the loop's commits when changes are staged", async () => {
+    const cwd = makeProject({
+      "reviewing.jsonl": [
+        { _tag: "AgentMessage", text: "<APPROVED>Looks good</APPROVED>" }
+      ]
+    })
+    const git = (...args: Array<string>) => execFileSync("git", args, { cwd, encoding: "utf-8" })
+    git("init", "--quiet")
+    git("config", "user.name", "Test")
+    git("config", "user.email", "test@example.com")
+    git("add", "-A")
+    git("commit", "--quiet", "-m", "Initial commit")
+    const initialCommitHash = git("rev-parse", "HEAD").trim()
+    fs.writeFileSync(path.join(cwd, "model.ts"), "export {}\n")
+    git("add", "-A")
+    git("commit", "--quiet", "-m", "Add the model")
+    const headCommitHash = git("rev-parse", "HEAD").trim()
+    // A change staged by the user
+    fs.writeFileSync(path.join(cwd, "notes.md"), "# Notes\n")
+    git("add", "notes.md")
+
+    const checkpoint: LoopCheckpoint = {
+      sessionId: "squash02",
+      focus: "Add a feature",
+      iteration: 1,
+      phase: "reviewing",
+      initialCommitHash
+    }
+
+    const events = await Effect.runPromise(runLoop(cwd, { resume: checkpoint, commitStrategy: "squash-on-approve" }))
+
+    expect(events.find((event) => event._tag === "CommitFailed")).toMatchObject({ message: expect.stringContaining("staged") })
+    expect(git("rev-parse", "HEAD").trim()).toBe(headCommitHash)
+    expect(git("diff", "--cached", "--name-only").trim()).toBe("notes.md")
+  })
+
+  it("should skip the commit of a task when the check command fails after it", async () => {
+    const cwd = makeProject({
+      "implementing.jsonl": [
+        { _tag: "AgentMessage", text: "<DONE>Add the feature</DONE>" }
+      ]
+    })
+    const git = (...args: Array<string>) => execFileSync("git", args, { cwd, encoding: "utf-8" })
+    git("init", "--quiet")
+    git("config", "user.name", "Test")
+    git("config", "user.email", "test@example.com")
+    git("add", "-A")
+    git("commit", "--quiet", "-m", "Initial commit")
+    const initialCommitHash = git("rev-parse", "HEAD").trim()
+    fs.writeFileSync(path.join(cwd, "feature.ts"), "export const feature =\n")
+
+    const wipDir = path.join(cwd, ".cuggino", "wip")
+    const checkpoint: LoopCheckpoint = {
+      sessionId: "gated",
+      focus: "Add a feature",
+      iteration: 1,
+      phase: "implementing",
+      initialCommitHash
+    }
+    fs.mkdirSync(wipDir, { recursive: true })
+    fs.writeFileSync(path.join(wipDir, "gated.md"), "# Plan\n\n# Progress Log\n")
+
+    const events = await Effect.runPromise(runLoop(cwd, {
+      resume: checkpoint,
+      commit: true,
+      checkCommand: "exit 1",
+      commitGate: "skip"
+    }))
+    const tags = events.map((event) => event._tag)
+
+    expect(tags.filter((tag) => tag === "CommitSkipped")).toHaveLength(2)
+    expect(tags).not.toContain("CommitPerformed")
+    // The check that blocked the first commit is reused by the second iteration
+    expect(tags.filter((tag) => tag === "CheckCommandStarting")).toHaveLength(3)
+    expect(git("rev-parse", "HEAD").trim()).toBe(initialCommitHash)
+  })
+
+  it("should commit the uncommitted task of a loop in a worktree before removing it", async () => {
+    const cwd = makeProject({
+      "planning.jsonl": planComplete,
+      "implementing.jsonl": [
+        { _tag: "AgentMessage", text: "<DONE>Add the feature</DONE>" }
+      ]
+    })
+    const git = (...args: Array<string>) => execFileSync("git", args, { cwd, encoding: "utf-8" })
+    git("init", "--quiet")
+    git("config", "user.name", "Test")
+    git("config", "user.email", "test@example.com")
+    git("add", "-A")
+    git("commit", "--quiet", "-m", "Initial commit")
+
+    const events = await Effect.runPromise(runLoop(cwd, {
+      worktree: {},
+      setupCommand: "echo 'export const feature =' > feature.ts",
+      checkCommand: "exit 1",
+      commitGate: "skip"
+    }))
+    const [kept] = events.flatMap((event) => event._tag === "WorktreeBranchKept" ? [event] : [])
+
+    expect(events.map((event) => event._tag)).toContain("LoopMaxIterations")
+    expect(events.find((event) => event._tag === "CommitPerformed")).toMatchObject({ message: "[wip] Uncommitted changes of the last task" })
+    expect(git("show", `${kept.branch}:feature.ts`)).toBe("export const feature =\n")
+  })
+
+  it("should run named check steps and only let required ones gate the commit", async () => {
+    const cwd = makeProject({
+      "implementing.jsonl": [
+        { _tag: "AgentMessage", text: "<DONE>Add the feature</DONE>" }
+      ]
+    })
+    const git = (...args: Array<string>) => execFileSync("git", args, { cwd, encoding: "utf-8" })
+    git("init", "--quiet")
+    git("config", "user.name", "Test")
+    git("config", "user.email", "test@example.com")
+    git("add", "-A")
+    git("commit", "--quiet", "-m", "Initial commit")
+    const initialCommitHash = git("rev-parse", "HEAD").trim()
+    fs.writeFileSync(path.join(cwd, "feature.ts"), "export const feature = 1\n")
+
+    const wipDir = path.join(cwd, ".cuggino", "wip")
+    const checkpoint: LoopCheckpoint = {
+      sessionId: "steps",
+      focus: "Add a feature",
+      iteration: 1,
+      phase: "implementing",
+      initialCommitHash
+    }
+    fs.mkdirSync(wipDir, { recursive: true })
+    fs.writeFileSync(path.join(wipDir, "steps.md"), "# Plan\n\n# Progress Log\n")
+
+    const events = await Effect.runPromise(runLoop(cwd, {
+      resume: checkpoint,
+      commit: true,
+      checkCommand: [
+        { name: "types", command: "echo types ok" },
+        { name: "slow lint", command: "sleep 5", timeout: 0.5, required: false }
+      ],
+      commitGate: "skip"
+    }))
+    const outputs = events.flatMap((event) => event._tag === "CheckCommandOutput" ? [event] : [])
+
+    expect(outputs.slice(0, 2).map((event) => [event.step, event.exitCode])).toEqual([["types", 0], ["slow lint", 124]])
+    expect(outputs[0].filePath).not.toBe(outputs[1].filePath)
+    expect(events.map((event) => event._tag)).not.toContain("CommitSkipped")
+    expect(git("log", "--format=%s", "-1").trim()).not.toBe("Initial commit")
+  })
+})
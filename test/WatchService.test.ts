@@ -0,0 +1,126 @@
+import { afterAll, describe, it, expect } from "vitest"
+import { Effect, Layer, Stream } from "effect"
+import { NodeServices } from "@effect/platform-node"
+import { execFileSync } from "node:child_process"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { WatchService, WatchServiceLayer, type WatchEvent } from "../src/WatchService.js"
+import { LoopServiceLayer } from "../src/LoopService.js"
+import { AgentLayerMap } from "../src/AgentLayerMap.js"
+import { SessionServiceMap } from "../src/SessionService.js"
+import { StorageServiceLayer, type CommandConfig } from "../src/StorageService.js"
+import { NotificationServiceLayer } from "../src/NotificationService.js"
+import { PlanWritingScriptedLlmAgentLayer, planComplete } from "./planWritingAgent.js"
+
+// Temporary projects created by the tests, removed once all have run (tests run concurrently)
+const projects: Array<string> = []
+
+afterAll(() => {
+  for (const cwd of projects) {
+    fs.rmSync(cwd, { recursive: true, force: true })
+  }
+})
+
+// Create a git project with two backlog items whose loops are approved after one task
+const makeProject = (files: Record<string, string> = {}): string => {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "cuggino-loop-"))
+  projects.push(cwd)
+  const fixturesDir = path.join(cwd, ".cuggino", "fixtures")
+  fs.mkdirSync(fixturesDir, { recursive: true })
+  const fixtures = {
+    "planning.jsonl": planComplete,
+    "implementing.jsonl": [{ _tag: "AgentMessage", text: "<DONE>Add the feature</DONE>" }],
+    "reviewing.jsonl": [{ _tag: "AgentMessage", text: "<APPROVED>Looks good</APPROVED>" }]
+  }
+  for (const [name, lines] of Object.entries(fixtures)) {
+    fs.writeFileSync(path.join(fixturesDir, name), lines.map((line) => JSON.stringify(line)).join("\n") + "\n")
+  }
+  const backlogDir = path.join(cwd, ".cuggino", "backlog")
+  fs.mkdirSync(backlogDir, { recursive: true })
+  fs.writeFileSync(path.join(backlogDir, "001-a.md"), "# Add feature A\n")
+  fs.writeFileSync(path.join(backlogDir, "002-b.md"), "# Add feature B\n")
+
+  const git = (...args: Array<string>) => execFileSync("git", args, { cwd, encoding: "utf-8" })
+  git("init", "--quiet")
+  git("config", "user.name", "Test")
+  git("config", "user.email", "test@example.com")
+  for (const [name, content] of Object.entries({ "README.md": "# Project\n", ...files })) {
+    fs.writeFileSync(path.join(cwd, name), content)
+    git("add", name)
+  }
+  git("commit", "--quiet", "-m", "Initial commit")
+  return cwd
+}
+
+// Run two backlog items side by side against the scripted agent, collecting events until `done` holds
+const runWatch = (cwd: string, setupCommand: CommandConfig, done: (events: ReadonlyArray<WatchEvent>) => boolean) =>
+  Effect.gen(function*() {
+    const watch = yield* WatchService
+    const events: Array<WatchEvent> = []
+    yield* watch.run({
+      specsPath: ".specs",
+      maxIterations: 2,
+      concurrency: 2,
+      commit: true,
+      slowMode: true,
+      setupCommand,
+      retry: { initialDelay: 0 }
+    }).pipe(
+      Stream.takeUntil((event) => {
+        events.push(event)
+        return done(events)
+      }),
+      Stream.runDrain
+    )
+    return events
+  }).pipe(
+    Effect.provide(
+      WatchServiceLayer.pipe(
+        Layer.provideMerge(LoopServiceLayer),
+        Layer.provideMerge(PlanWritingScriptedLlmAgentLayer),
+        Layer.provideMerge(NotificationServiceLayer(cwd)),
+        Layer.provideMerge(AgentLayerMap.layer),
+        Layer.provideMerge(SessionServiceMap.layer),
+        Layer.provideMerge(StorageServiceLayer(cwd)),
+        Layer.provideMerge(NodeServices.layer)
+      )
+    )
+  )
+
+const count = (events: ReadonlyArray<WatchEvent>, tag: WatchEvent["_tag"]) =>
+  events.filter((event) => event._tag === tag).length
+
+describe("WatchService with the scripted agent", () => {
+  it("should run backlog items in parallel and merge their branches in filename order", async () => {
+    const cwd = makeProject()
+
+    // Each loop writes a file of its own in its worktree
+    const events = await Effect.runPromise(
+      runWatch(cwd, "echo $$ > \"$(basename \"$(pwd)\").txt\"", (events) => count(events, "WatchItemCompleted") === 2)
+    )
+    const tags = events.map((event) => event._tag)
+    const merges = events.flatMap((event) =>
+      event._tag === "WatchItemEvent" && event.event._tag === "WorktreeMerged" ? [event.filename] : []
+    )
+    const firstMerge = events.findIndex((event) => event._tag === "WatchItemEvent" && event.event._tag === "WorktreeMerged")
+
+    expect(tags.filter((tag) => tag === "WatchProcessingItem").length).toBe(2)
+    expect(tags.lastIndexOf("WatchProcessingItem")).toBeLessThan(firstMerge)
+    expect(merges).toEqual(["001-a.md", "002-b.md"])
+    expect(fs.readdirSync(path.join(cwd, ".cuggino", "backlog"))).toHaveLength(0)
+  })
+
+  it("should return an item whose branch conflicts to the backlog with a note", async () => {
+    const cwd = makeProject({ "shared.txt": "base\n" })
+
+    // Both loops change the same line of the same file
+    const events = await Effect.runPromise(
+      runWatch(cwd, "echo $$ > shared.txt", (events) => count(events, "WatchItemMergeFailed") === 1)
+    )
+
+    expect(events.find((event) => event._tag === "WatchItemCompleted")).toMatchObject({ filename: "001-a.md" })
+    expect(events.find((event) => event._tag === "WatchItemMergeFailed")).toMatchObject({ filename: "002-b.md" })
+    expect(fs.readFileSync(path.join(cwd, ".cuggino", "backlog", "002-b.md"), "utf-8")).toContain("Note from cuggino")
+  })
+})
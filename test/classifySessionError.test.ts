@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest"
+import { classifySessionError } from "../src/classifySessionError.js"
+
+describe("classifySessionError", () => {
+  it("should classify provider errors with a retryable status as transient", () => {
+    expect(classifySessionError("API Error: 529 {\"type\":\"overloaded_error\"}").transient).toBe(true)
+    expect(classifySessionError("unexpected status 503 Service Unavailable").transient).toBe(true)
+    expect(classifySessionError("{\"error\":{\"status\":502}}").transient).toBe(true)
+    expect(classifySessionError("stream error: request timed out").transient).toBe(true)
+  })
+
+  it("should not treat status codes or timeouts quoted from files or tests as transient", () => {
+    expect(classifySessionError("Invalid tool input: line 503 of src/server.ts").transient).toBe(false)
+    expect(classifySessionError("Error in test \"should retry when the request times out\"").transient).toBe(false)
+    expect(classifySessionError("Execution error: handler returned 504 items").transient).toBe(false)
+  })
+
+  it("should prefer the provider's status over the message", () => {
+    expect(classifySessionError("Provider error", { status: 429 }).transient).toBe(true)
+    expect(classifySessionError("Request timed out", { status: 400 }).transient).toBe(false)
+  })
+})
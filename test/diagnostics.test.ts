@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest"
+import { parseDiagnostics, summarizeDiagnostics } from "../src/diagnostics.js"
+
+describe("parseDiagnostics", () => {
+  it("should parse tsc errors in both output styles", () => {
+    const output = [
+      "src/a.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "\x1b[96msrc/b.ts\x1b[0m:\x1b[93m3\x1b[0m:\x1b[93m1\x1b[0m - \x1b[91merror\x1b[0m\x1b[90m TS2304: \x1b[0mCannot find name 'foo'.",
+      "",
+      "Found 2 errors in 2 files."
+    ].join("\n")
+
+    expect(parseDiagnostics(output)).toEqual([
+      { file: "src/a.ts", line: 12, column: 5, severity: "error", message: "TS2322: Type 'string' is not assignable to type 'number'." },
+      { file: "src/b.ts", line: 3, column: 1, severity: "error", message: "TS2304: Cannot find name 'foo'." }
+    ])
+  })
+
+  it("should parse eslint's stylish output", () => {
+    const output = [
+      "/repo/src/a.ts",
+      "   1:10  error    'x' is defined but never used  no-unused-vars",
+      "  4:1   warning  Unexpected console statement   no-console",
+      "",
+      "✖ 2 problems (1 error, 1 warning)"
+    ].join("\n")
+
+    expect(parseDiagnostics(output, ["eslint"])).toEqual([
+      { file: "/repo/src/a.ts", line: 1, column: 10, severity: "error", message: "'x' is defined but never used no-unused-vars" },
+      { file: "/repo/src/a.ts", line: 4, column: 1, severity: "warning", message: "Unexpected console statement no-console" }
+    ])
+  })
+
+  it("should parse failed vitest and jest tests", () => {
+    const vitest = " FAIL  test/a.test.ts > parser > handles empty input\n FAIL  test/b.test.ts\n"
+    const jest = "FAIL src/c.test.js\n  ● math › adds numbers\n"
+
+    expect(parseDiagnostics(vitest, ["vitest"]).map((d) => `${d.file}: ${d.message}`)).toEqual([
+      "test/a.test.ts: test failed: parser > handles empty input",
+      "test/b.test.ts: test file failed"
+    ])
+    expect(parseDiagnostics(jest, ["jest"]).map((d) => `${d.file}: ${d.message}`)).toEqual([
+      "src/c.test.js: test failed: math › adds numbers"
+    ])
+  })
+
+  it("should parse generic file:line:col lines and skip other output", () => {
+    const output = "Compiling...\nmain.c:7:3: warning: unused variable 'y'\nlib/util.py:42: undefined name 'z'\nDone in 2s"
+
+    expect(parseDiagnostics(output)).toEqual([
+      { file: "main.c", line: 7, column: 3, severity: "warning", message: "unused variable 'y'" },
+      { file: "lib/util.py", line: 42, severity: "error", message: "undefined name 'z'" }
+    ])
+  })
+})
+
+describe("summarizeDiagnostics", () => {
+  it("should list errors before warnings and cap the list", () => {
+    const summary = summarizeDiagnostics([
+      { file: "a.ts", line: 1, severity: "warning", message: "w" },
+      { file: "b.ts", line: 2, column: 4, severity: "error", message: "e1" },
+      { severity: "error", message: "e2" }
+    ], 2)
+
+    expect(summary).toBe("2 errors, 1 warning:\n\n- b.ts:2:4 error: e1\n- error: e2\n- … and 1 more")
+  })
+})
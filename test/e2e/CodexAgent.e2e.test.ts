@@ -2,6 +2,7 @@ import { describe, it, expect } from "vitest"
 import { Effect, Layer, Stream } from "effect"
 import { LlmAgent } from "../../src/LlmAgent.js"
 import { CodexLlmAgentLayer } from "../../src/CodexLlmAgent.js"
+import { StorageServiceLayer } from "../../src/StorageService.js"
 import { extractMarkers } from "../../src/extractMarkers.js"
 import { defaultMarkerConfig } from "../../src/LlmMarkerEvent.js"
 import { NodeServices } from "@effect/platform-node"
@@ -37,7 +38,7 @@ describe("Codex LlmAgent E2E", () => {
 
     const result = await Effect.runPromise(
       program.pipe(
-        Effect.provide(CodexLlmAgentLayer.pipe(Layer.provide(NodeServices.layer))),
+        Effect.provide(CodexLlmAgentLayer.pipe(Layer.provide(StorageServiceLayer(process.cwd())), Layer.provide(NodeServices.layer))),
         Effect.scoped
       )
     )
@@ -71,7 +72,7 @@ describe("Codex LlmAgent E2E", () => {
 
     const result = await Effect.runPromise(
       program.pipe(
-        Effect.provide(CodexLlmAgentLayer.pipe(Layer.provide(NodeServices.layer))),
+        Effect.provide(CodexLlmAgentLayer.pipe(Layer.provide(StorageServiceLayer(process.cwd())), Layer.provide(NodeServices.layer))),
         Effect.scoped
       )
     )
@@ -105,7 +106,7 @@ describe("Codex LlmAgent E2E", () => {
 
     const result = await Effect.runPromise(
       program.pipe(
-        Effect.provide(CodexLlmAgentLayer.pipe(Layer.provide(NodeServices.layer))),
+        Effect.provide(CodexLlmAgentLayer.pipe(Layer.provide(StorageServiceLayer(process.cwd())), Layer.provide(NodeServices.layer))),
         Effect.scoped
       )
     )
@@ -145,7 +146,7 @@ describe("Codex LlmAgent E2E", () => {
 
     const result = await Effect.runPromise(
       program.pipe(
-        Effect.provide(CodexLlmAgentLayer.pipe(Layer.provide(NodeServices.layer))),
+        Effect.provide(CodexLlmAgentLayer.pipe(Layer.provide(StorageServiceLayer(process.cwd())), Layer.provide(NodeServices.layer))),
         Effect.scoped
       )
     )
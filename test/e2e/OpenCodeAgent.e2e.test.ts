@@ -2,6 +2,7 @@ import { describe, it, expect } from "vitest"
 import { Effect, Layer, Stream } from "effect"
 import { LlmAgent } from "../../src/LlmAgent.js"
 import { OpenCodeLlmAgentLayer } from "../../src/OpenCodeLlmAgent.js"
+import { StorageServiceLayer } from "../../src/StorageService.js"
 import { extractMarkers } from "../../src/extractMarkers.js"
 import { defaultMarkerConfig } from "../../src/LlmMarkerEvent.js"
 import { NodeServices } from "@effect/platform-node"
@@ -35,7 +36,7 @@ describe("OpenCode LlmAgent E2E", () => {
 
     const result = await Effect.runPromise(
       program.pipe(
-        Effect.provide(OpenCodeLlmAgentLayer.pipe(Layer.provide(NodeServices.layer))),
+        Effect.provide(OpenCodeLlmAgentLayer.pipe(Layer.provide(StorageServiceLayer(process.cwd())), Layer.provide(NodeServices.layer))),
         Effect.scoped
       )
     )
@@ -69,7 +70,7 @@ describe("OpenCode LlmAgent E2E", () => {
 
     const result = await Effect.runPromise(
       program.pipe(
-        Effect.provide(OpenCodeLlmAgentLayer.pipe(Layer.provide(NodeServices.layer))),
+        Effect.provide(OpenCodeLlmAgentLayer.pipe(Layer.provide(StorageServiceLayer(process.cwd())), Layer.provide(NodeServices.layer))),
         Effect.scoped
       )
     )
@@ -103,7 +104,7 @@ describe("OpenCode LlmAgent E2E", () => {
 
     const result = await Effect.runPromise(
       program.pipe(
-        Effect.provide(OpenCodeLlmAgentLayer.pipe(Layer.provide(NodeServices.layer))),
+        Effect.provide(OpenCodeLlmAgentLayer.pipe(Layer.provide(StorageServiceLayer(process.cwd())), Layer.provide(NodeServices.layer))),
         Effect.scoped
       )
     )
@@ -143,7 +144,7 @@ describe("OpenCode LlmAgent E2E", () => {
 
     const result = await Effect.runPromise(
       program.pipe(
-        Effect.provide(OpenCodeLlmAgentLayer.pipe(Layer.provide(NodeServices.layer))),
+        Effect.provide(OpenCodeLlmAgentLayer.pipe(Layer.provide(StorageServiceLayer(process.cwd())), Layer.provide(NodeServices.layer))),
         Effect.scoped
       )
     )
@@ -8,7 +8,7 @@ import {
   type LlmAgentEvent
 } from "../src/LlmAgentEvent.js"
 import { extractMarkers } from "../src/extractMarkers.js"
-import { Note, SpecIssue, Done, Approved, RequestChanges, ToBeDiscussed, defaultMarkerConfig, isLlmMarkerEvent, isLlmTerminalMarkerEvent } from "../src/LlmMarkerEvent.js"
+import { Note, SpecIssue, Done, Approved, RequestChanges, ToBeDiscussed, defaultMarkerConfig, isLlmMarkerEvent, isLlmTerminalMarkerEvent, requestChangesBody } from "../src/LlmMarkerEvent.js"
 
 // Helper to collect stream into array
 const collectStream = <A, E>(stream: Stream.Stream<A, E, never>): Effect.Effect<Array<A>, E> =>
@@ -19,8 +19,8 @@ describe("extractMarkers", () => {
     it("should pass through non-AgentMessage events unchanged", async () => {
       const events: Array<LlmAgentEvent> = [
         new SystemMessage({ text: "Session started" }),
-        new ToolCall({ name: "Bash", input: { command: "ls" } }),
-        new ToolResult({ name: "Bash", output: "file.txt", isError: false })
+        new ToolCall({ id: "call-1", name: "Bash", input: { command: "ls" } }),
+        new ToolResult({ callId: "call-1", toolName: "Bash", output: "file.txt", isError: false })
       ]
 
       const stream = Stream.fromIterable(events)
@@ -307,4 +307,150 @@ with various content
       }
     })
   })
+
+  describe("chunked input", () => {
+    it("should extract a marker split across two messages", async () => {
+      const events: Array<LlmAgentEvent> = [
+        new AgentMessage({ text: "Finishing up. <DONE>All tasks" }),
+        new AgentMessage({ text: " completed</DONE>" })
+      ]
+
+      const stream = Stream.fromIterable(events)
+      const result = await Effect.runPromise(collectStream(extractMarkers(stream, defaultMarkerConfig)))
+
+      expect(result).toHaveLength(2)
+      expect(result[0]._tag).toBe("AgentMessage")
+      if (result[0]._tag === "AgentMessage") {
+        expect(result[0].text).toBe("Finishing up.")
+      }
+      expect(result[1]).toEqual(new Done({ content: "All tasks completed" }))
+    })
+
+    it("should extract a marker split across text and tool calls", async () => {
+      const events: Array<LlmAgentEvent> = [
+        new AgentMessage({ text: "<NOTE>Checking" }),
+        new ToolCall({ id: "call-1", name: "Bash", input: { command: "ls" } }),
+        new ToolResult({ callId: "call-1", toolName: "Bash", output: "file.txt", isError: false }),
+        new AgentMessage({ text: " the files</NOTE> done" })
+      ]
+
+      const stream = Stream.fromIterable(events)
+      const result = await Effect.runPromise(collectStream(extractMarkers(stream, defaultMarkerConfig)))
+
+      expect(result.map((event) => event._tag)).toEqual(["ToolCall", "ToolResult", "Note", "AgentMessage"])
+      expect(result[2]).toEqual(new Note({ content: "Checking the files" }))
+    })
+
+    it("should extract a marker whose opening tag is split", async () => {
+      const events: Array<LlmAgentEvent> = [
+        new AgentMessage({ text: "<APPR" }),
+        new AgentMessage({ text: "OVED>Looks good</APP" }),
+        new AgentMessage({ text: "ROVED>" })
+      ]
+
+      const stream = Stream.fromIterable(events)
+      const result = await Effect.runPromise(collectStream(extractMarkers(stream, defaultMarkerConfig)))
+
+      expect(result).toHaveLength(1)
+      expect(result[0]).toEqual(new Approved({ content: "Looks good" }))
+    })
+
+    it("should extract a marker streamed one character at a time", async () => {
+      const text = "Plan ready <SPEC_ISSUE>Spec unclear</SPEC_ISSUE> end"
+      const events: Array<LlmAgentEvent> = text.split("").map((char) => new AgentMessage({ text: char }))
+
+      const stream = Stream.fromIterable(events)
+      const result = await Effect.runPromise(collectStream(extractMarkers(stream, defaultMarkerConfig)))
+
+      expect(result.filter(isLlmMarkerEvent)).toEqual([new SpecIssue({ content: "Spec unclear" })])
+    })
+
+    it("should emit an unclosed marker as text when the stream ends", async () => {
+      const events: Array<LlmAgentEvent> = [
+        new AgentMessage({ text: "Before <DONE>never closed" })
+      ]
+
+      const stream = Stream.fromIterable(events)
+      const result = await Effect.runPromise(collectStream(extractMarkers(stream, defaultMarkerConfig)))
+
+      expect(result).toHaveLength(2)
+      expect(result[0]).toEqual(new AgentMessage({ text: "Before" }))
+      expect(result[1]).toEqual(new AgentMessage({ text: "<DONE>never closed" }))
+    })
+
+    it("should pass an unclosed marker on as text once too much is held back", async () => {
+      const events: Array<LlmAgentEvent> = [
+        new AgentMessage({ text: "<DONE>never closed" }),
+        new AgentMessage({ text: "x".repeat(25_000) }),
+        new ToolCall({ id: "call-1", name: "Bash", input: { command: "ls" } }),
+        new AgentMessage({ text: "<NOTE>Checked</NOTE>" })
+      ]
+
+      const stream = Stream.fromIterable(events)
+      const result = await Effect.runPromise(collectStream(extractMarkers(stream, defaultMarkerConfig)))
+
+      expect(result.map((event) => event._tag)).toEqual(["AgentMessage", "ToolCall", "Note"])
+      expect(result[0]).toEqual(new AgentMessage({ text: `<DONE>never closed${"x".repeat(25_000)}` }))
+    })
+  })
+
+  describe("structured markers", () => {
+    it("should parse attributes of the opening tag", async () => {
+      const events: Array<LlmAgentEvent> = [
+        new AgentMessage({ text: `<DONE task="3" files="src/a.ts, src/b.ts">Add parser</DONE>` })
+      ]
+
+      const stream = Stream.fromIterable(events)
+      const result = await Effect.runPromise(collectStream(extractMarkers(stream, defaultMarkerConfig)))
+
+      expect(result).toEqual([
+        new Done({
+          content: "Add parser",
+          attributes: { task: "3", files: "src/a.ts, src/b.ts" },
+          task: "3",
+          files: ["src/a.ts", "src/b.ts"]
+        })
+      ])
+    })
+
+    it("should parse review findings from a JSON body", async () => {
+      const body = JSON.stringify([{ file: "src/a.ts", line: 12, severity: "error", message: "Missing check" }])
+      const events: Array<LlmAgentEvent> = [
+        new AgentMessage({ text: `<REQUEST_CHANGES>${body}</REQUEST_CHANGES>` })
+      ]
+
+      const stream = Stream.fromIterable(events)
+      const result = await Effect.runPromise(collectStream(extractMarkers(stream, defaultMarkerConfig)))
+
+      expect(result).toEqual([
+        new RequestChanges({
+          content: body,
+          findings: [{ file: "src/a.ts", line: 12, severity: "error", message: "Missing check" }]
+        })
+      ])
+    })
+
+    it("should render review findings as a list", () => {
+      const marker = defaultMarkerConfig.REQUEST_CHANGES(
+        JSON.stringify({ findings: [{ file: "src/a.ts", line: 12, severity: "error", message: "Missing check" }, { message: "Add tests" }] }),
+        {}
+      )
+
+      expect(requestChangesBody(marker)).toBe("- src/a.ts:12 (error): Missing check\n- Add tests")
+    })
+
+    it("should extract a marker whose attributes are split across messages", async () => {
+      const events: Array<LlmAgentEvent> = [
+        new AgentMessage({ text: "Finished <DONE ta" }),
+        new AgentMessage({ text: `sk="1">Add parser</DONE>` })
+      ]
+
+      const stream = Stream.fromIterable(events)
+      const result = await Effect.runPromise(collectStream(extractMarkers(stream, defaultMarkerConfig)))
+
+      expect(result.filter(isLlmMarkerEvent)).toEqual([
+        new Done({ content: "Add parser", attributes: { task: "1" }, task: "1" })
+      ])
+    })
+  })
 })
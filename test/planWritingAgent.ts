@@ -0,0 +1,29 @@
+import { Effect, Layer, Stream } from "effect"
+import * as fs from "node:fs"
+import { LlmAgent } from "../src/LlmAgent.js"
+import { ScriptedLlmAgentLayer } from "../src/ScriptedLlmAgent.js"
+
+// The scripted agent does not touch the file system: write the plan a planning prompt asks for before replaying
+export const PlanWritingScriptedLlmAgentLayer = Layer.effect(
+  LlmAgent,
+  Effect.gen(function*() {
+    const agent = yield* LlmAgent
+    return {
+      ...agent,
+      spawn: (options) => {
+        const planPath = /Write the plan to (\S+)$/.exec(options.prompt)?.[1]
+        return planPath === undefined
+          ? agent.spawn(options)
+          : Stream.concat(
+            Stream.fromEffectDrain(Effect.sync(() => fs.writeFileSync(planPath, "# Plan\n\n1. Add the feature\n"))),
+            agent.spawn(options)
+          )
+      }
+    }
+  })
+).pipe(Layer.provide(ScriptedLlmAgentLayer))
+
+// Planning fixture for loops that get past planning
+export const planComplete = [
+  { _tag: "AgentMessage", text: "<PLAN_COMPLETE>Plan written</PLAN_COMPLETE>" }
+]